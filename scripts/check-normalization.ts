@@ -0,0 +1,156 @@
+/**
+ * Japanese near-duplicate corpus for the duplicate-detection normalization (no Postgres / APIs)
+ * Run with: npx tsx scripts/check-normalization.ts
+ *
+ * Each pair states whether the two texts must normalize identically ("exact"), count as
+ * similar under MinHash at DUPLICATE_SIM_THRESHOLD ("similar"), or stay apart ("distinct").
+ * Exits non-zero if any pair is classified differently.
+ */
+
+import { config } from "../src/lib/config";
+import { normalizeText } from "../src/lib/utils/text-normalize";
+import { MinHash, generateMinHashSignature } from "../src/lib/utils/minhash";
+
+interface CorpusPair {
+  name: string;
+  a: string;
+  b: string;
+  expected: "exact" | "similar" | "distinct";
+  maskNumbers?: boolean;
+}
+
+const corpus: CorpusPair[] = [
+  {
+    name: "全角数字",
+    a: "副業で月１０万円稼ぐまでにやったことを全部まとめました",
+    b: "副業で月10万円稼ぐまでにやったことを全部まとめました",
+    expected: "exact",
+  },
+  {
+    name: "全角英字",
+    a: "ＳＮＳ運用は毎日の発信が９割です",
+    b: "SNS運用は毎日の発信が9割です",
+    expected: "exact",
+  },
+  {
+    name: "半角カナ",
+    a: "ｶﾞｿﾘﾝ代を経費にするときの注意点をまとめました",
+    b: "ガソリン代を経費にするときの注意点をまとめました",
+    expected: "exact",
+  },
+  {
+    name: "ひらがな/カタカナ",
+    a: "ふりーらんすの確定申告、いつから準備してますか",
+    b: "フリーランスの確定申告、いつから準備してますか",
+    expected: "exact",
+  },
+  {
+    name: "句読点・記号",
+    a: "今日も配達お疲れさまでした！明日も頑張りましょう。",
+    b: "今日も配達お疲れさまでした!!明日も頑張りましょう",
+    expected: "exact",
+  },
+  {
+    name: "括弧・三点リーダー",
+    a: "【保存版】開業届の出し方……意外と簡単です",
+    b: "[保存版]開業届の出し方...意外と簡単です",
+    expected: "exact",
+  },
+  {
+    name: "絵文字の差し替え",
+    a: "軽貨物で独立して1年🚚 売上は順調です✨",
+    b: "軽貨物で独立して1年🔥売上は順調です👍",
+    expected: "exact",
+  },
+  {
+    name: "肌色・ZWJ 絵文字",
+    a: "朝イチの配達完了です👍🏻 今日も一日よろしくお願いします👨‍👩‍👧",
+    b: "朝イチの配達完了です 今日も一日よろしくお願いします🙏",
+    expected: "exact",
+  },
+  {
+    name: "空白・改行",
+    a: "独立して\n一番よかったこと\n\nそれは 時間を自分で決められること",
+    b: "独立して一番よかったこと それは時間を自分で決められること",
+    expected: "exact",
+  },
+  {
+    name: "数字マスク",
+    a: "副業で月5万円稼ぐために最初の3ヶ月でやったこと",
+    b: "副業で月30万円稼ぐために最初の6ヶ月でやったこと",
+    expected: "exact",
+    maskNumbers: true,
+  },
+  {
+    name: "語尾の追加",
+    a: "確定申告の時期が近づいてきました。領収書の整理は今のうちに済ませておくのがおすすめです。早めの準備が一番の節約になります。",
+    b: "確定申告の時期が近づいてきましたね。領収書の整理は今のうちに済ませておくのがオススメです！早めの準備が一番の節約になります",
+    expected: "similar",
+  },
+  {
+    name: "表記ゆれ＋絵文字",
+    a: "フリーランス１年目の失敗談。請求書の発行を後回しにして、入金が２ヶ月遅れました😇 同じ失敗をしないように、請求は納品日に出すのがおすすめです。",
+    b: "フリーランス1年目の失敗談…請求書の発行を後回しにして入金が2ヶ月も遅れました💦 同じ失敗をしないように請求は納品日に出すのがオススメです",
+    expected: "similar",
+  },
+  {
+    name: "数字の違い（マスクなし）",
+    a: "副業で月5万円稼ぐために最初の3ヶ月でやったこと",
+    b: "副業で月30万円稼ぐために最初の6ヶ月でやったこと",
+    expected: "distinct",
+  },
+  {
+    name: "同じテーマの別投稿",
+    a: "確定申告の時期が近づいてきました。領収書の整理は今のうちに済ませておくのがおすすめです。",
+    b: "確定申告はe-Taxなら自宅で完結します。マイナンバーカードがあればスマホからでも提出できます。",
+    expected: "distinct",
+  },
+  {
+    name: "別テーマ",
+    a: "軽貨物で独立して1年。売上は順調ですが、車両の維持費が想像以上でした。",
+    b: "転職活動で大事なのは、自分の強みを言語化しておくこと。面接前に3つ書き出すだけで変わります。",
+    expected: "distinct",
+  },
+];
+
+function classify(pair: CorpusPair): { actual: CorpusPair["expected"]; similarity: number } {
+  const normalizedA = normalizeText(pair.a, { maskNumbers: pair.maskNumbers });
+  const normalizedB = normalizeText(pair.b, { maskNumbers: pair.maskNumbers });
+  if (normalizedA === normalizedB) return { actual: "exact", similarity: 1 };
+
+  const similarity = MinHash.similarity(
+    generateMinHashSignature(pair.a),
+    generateMinHashSignature(pair.b)
+  );
+  return {
+    actual: similarity > config.duplicateSimThreshold ? "similar" : "distinct",
+    similarity,
+  };
+}
+
+function main() {
+  console.log(`🔤 Checking ${corpus.length} pairs (similarity threshold ${config.duplicateSimThreshold})...\n`);
+
+  const rows = corpus.map((pair) => {
+    const { actual, similarity } = classify(pair);
+    return {
+      pair: pair.name,
+      expected: pair.expected,
+      actual,
+      similarity: similarity.toFixed(3),
+      ok: actual === pair.expected ? "✅" : "❌",
+    };
+  });
+  console.table(rows);
+
+  const failed = rows.filter((row) => row.actual !== row.expected);
+  if (failed.length > 0) {
+    console.error(`\n❌ ${failed.length} pair(s) misclassified: ${failed.map((f) => f.pair).join(", ")}`);
+    process.exit(1);
+  }
+
+  console.log("\n✅ All pairs classified as expected");
+  process.exit(0);
+}
+
+main();
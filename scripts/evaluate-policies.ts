@@ -0,0 +1,38 @@
+/**
+ * Offline policy evaluation against logged selections
+ * Run with: npx tsx scripts/evaluate-policies.ts [platform] [days]
+ */
+
+import { evaluatePolicies } from "../src/lib/modules/offline-evaluator";
+
+async function main() {
+  const platform = process.argv[2] as "x" | "threads" | undefined;
+  const days = parseInt(process.argv[3] || "30", 10);
+
+  console.log(`📊 Evaluating policies (${platform || "all"}, last ${days} days)...\n`);
+
+  const report = await evaluatePolicies({ platform, days });
+
+  console.log(`Reward definition: ${report.rewardDefinition}`);
+  console.log(`Logged selections: ${report.loggedSelections}`);
+  console.log(`Evaluated samples: ${report.evaluatedSamples}`);
+  console.log(`Observed average reward (logging policy): ${report.observedAverageReward.toFixed(3)}\n`);
+
+  console.table(
+    report.estimates.map((e) => ({
+      policy: e.policy,
+      ips: e.ips.toFixed(3),
+      snips: e.snips.toFixed(3),
+      doublyRobust: e.doublyRobust.toFixed(3),
+      ess: e.effectiveSampleSize.toFixed(1),
+      meanWeight: e.meanWeight.toFixed(2),
+    }))
+  );
+
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,25 @@
+/**
+ * Recompute content hashes / MinHash signatures and rebuild the LSH duplicate index
+ * Run with: npx tsx scripts/rebuild-duplicate-index.ts
+ *
+ * Needed after the duplicate-detection normalization changes (including toggling
+ * DUPLICATE_MASK_NUMBERS): stored hashes and bands no longer match new posts otherwise.
+ */
+
+import { maintainDuplicateIndex } from "../src/lib/modules/duplicate-index";
+
+async function main() {
+  console.log("🔁 Rebuilding duplicate index...\n");
+
+  const result = await maintainDuplicateIndex({ rebuild: true });
+
+  console.log(`Indexed: ${result.indexed}`);
+  console.log(`Removed: ${result.removed}`);
+
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,211 @@
+/**
+ * Offline bandit simulation against a synthetic environment (no OpenAI / X / Postgres)
+ * Run with: npx tsx scripts/simulate-bandit.ts [weeks] [postsPerDay] [seed] [strategies]
+ *
+ * Each strategy runs selectArm/updateArm on its own in-memory store with the same seed,
+ * rewards arrive after a 24h delay like the metrics cron, arm retirement runs once a day
+ * like the learn cron, and cumulative regret against the best arm for each slot is printed per day.
+ */
+
+import { config } from "../src/lib/config";
+import {
+  selectArm,
+  updateArm,
+  updateArmRetirement,
+  getTimeBucket,
+} from "../src/lib/modules/bandit";
+import { createMemoryBanditStore } from "../src/lib/modules/bandit-store";
+import {
+  banditStrategies,
+  updateContextualModel,
+  type BanditStrategy,
+} from "../src/lib/modules/contextual-bandit";
+import { createSeededRng, gaussianRandom, type Rng } from "../src/lib/utils/random";
+
+const PLATFORM = "x" as const;
+const REWARD_DELAY_HOURS = 24;
+const REWARD_NOISE = 1.5;
+
+/**
+ * Synthetic environment: expected reward (0-10) is a logistic function of
+ * additive format/hook/topic/time/day effects plus a format×time interaction
+ */
+function createEnvironment(rng: Rng) {
+  const effect = (scale: number) => gaussianRandom(rng) * scale;
+  const effects = new Map<string, number>();
+  const get = (key: string, scale: number) => {
+    if (!effects.has(key)) effects.set(key, effect(scale));
+    return effects.get(key)!;
+  };
+
+  const expectedReward = (
+    arm: { format: string; hookType: string; topic: string },
+    at: Date
+  ): number => {
+    const timeBucket = getTimeBucket(at.getHours());
+    const logit =
+      -0.5 +
+      get(`format=${arm.format}`, 0.5) +
+      get(`hook=${arm.hookType}`, 0.5) +
+      get(`topic=${arm.topic}`, 0.3) +
+      get(`time=${timeBucket}`, 0.3) +
+      get(`day=${at.getDay()}`, 0.2) +
+      get(`format=${arm.format}&time=${timeBucket}`, 0.3);
+    return 10 / (1 + Math.exp(-logit));
+  };
+
+  const bestExpectedReward = (at: Date): number => {
+    let best = 0;
+    for (const format of config.formats) {
+      for (const hookType of config.hookTypes) {
+        for (const topic of config.topics) {
+          best = Math.max(best, expectedReward({ format, hookType, topic }, at));
+        }
+      }
+    }
+    return best;
+  };
+
+  return { expectedReward, bestExpectedReward };
+}
+
+/**
+ * Posting times for one day, spread evenly between 6:00 and 23:00
+ */
+function getSlots(day: Date, postsPerDay: number): Date[] {
+  const slots: Date[] = [];
+  for (let i = 0; i < postsPerDay; i++) {
+    const slot = new Date(day);
+    slot.setMinutes(Math.round(6 * 60 + (i * 17 * 60) / postsPerDay));
+    slots.push(slot);
+  }
+  return slots;
+}
+
+async function simulate(
+  strategy: BanditStrategy,
+  params: { weeks: number; postsPerDay: number; seed: number }
+): Promise<number[]> {
+  // Same environment and noise sequence for every strategy
+  const environment = createEnvironment(createSeededRng(params.seed));
+  const noiseRng = createSeededRng(params.seed + 1);
+  const policyRng = createSeededRng(params.seed + 2);
+  const store = createMemoryBanditStore();
+
+  const start = new Date(2025, 0, 6); // A Monday
+  const pending: Array<{
+    observeAt: Date;
+    armId: string;
+    reward: number;
+    ctx: Parameters<typeof updateContextualModel>[1];
+  }> = [];
+  const cumulativeRegretByDay: number[] = [];
+  let cumulativeRegret = 0;
+
+  for (let d = 0; d < params.weeks * 7; d++) {
+    const day = new Date(start);
+    day.setDate(start.getDate() + d);
+
+    for (const now of getSlots(day, params.postsPerDay)) {
+      // Deliver rewards whose metrics window has elapsed
+      for (let i = pending.length - 1; i >= 0; i--) {
+        const observed = pending[i];
+        if (observed.observeAt > now) continue;
+        await updateArm(observed.armId, PLATFORM, observed.reward, { store, now });
+        updateContextualModel(
+          store.contextualModels[PLATFORM],
+          observed.ctx,
+          Math.min(1, Math.max(0, observed.reward / 10))
+        );
+        pending.splice(i, 1);
+      }
+
+      const arm = await selectArm(PLATFORM, {
+        strategy,
+        store,
+        rng: policyRng,
+        now,
+        logSelection: false,
+      });
+
+      const expected = environment.expectedReward(arm, now);
+      cumulativeRegret += environment.bestExpectedReward(now) - expected;
+
+      const reward = Math.min(10, Math.max(0, expected + gaussianRandom(noiseRng) * REWARD_NOISE));
+      pending.push({
+        observeAt: new Date(now.getTime() + REWARD_DELAY_HOURS * 60 * 60 * 1000),
+        armId: arm.armId,
+        reward,
+        ctx: {
+          format: arm.format,
+          hookType: arm.hookType,
+          topic: arm.topic,
+          timeBucket: getTimeBucket(now.getHours()),
+          dayOfWeek: now.getDay(),
+        },
+      });
+    }
+
+    const endOfDay = new Date(day);
+    endOfDay.setHours(23, 59, 0, 0);
+    await updateArmRetirement(PLATFORM, { store, now: endOfDay, logEvents: false });
+
+    cumulativeRegretByDay.push(cumulativeRegret);
+  }
+
+  return cumulativeRegretByDay;
+}
+
+async function main() {
+  const weeks = parseInt(process.argv[2] || "4", 10);
+  const postsPerDay = parseInt(process.argv[3] || "12", 10);
+  const seed = parseInt(process.argv[4] || "42", 10);
+  const strategies = process.argv[5]
+    ? (process.argv[5].split(",") as BanditStrategy[])
+    : [...banditStrategies];
+
+  const unknown = strategies.filter((s) => !banditStrategies.includes(s));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown strategies: ${unknown.join(", ")}`);
+  }
+
+  console.log(
+    `🎰 Simulating ${strategies.join(", ")} for ${weeks} weeks, ${postsPerDay} posts/day (seed ${seed})`
+  );
+  console.log(`   Decay mode: ${config.banditDecayMode}\n`);
+
+  const curves: Record<string, number[]> = {};
+  for (const strategy of strategies) {
+    const started = Date.now();
+    curves[strategy] = await simulate(strategy, { weeks, postsPerDay, seed });
+    console.log(`   ${strategy}: done in ${((Date.now() - started) / 1000).toFixed(1)}s`);
+  }
+
+  console.log("\nCumulative regret (expected reward vs best arm per slot):");
+  console.table(
+    Array.from({ length: weeks * 7 }, (_, d) => ({
+      day: d + 1,
+      ...Object.fromEntries(strategies.map((s) => [s, curves[s][d].toFixed(1)])),
+    }))
+  );
+
+  console.log("Average regret per post in the final week:");
+  console.table(
+    strategies.map((s) => {
+      const curve = curves[s];
+      const lastWeek = curve[curve.length - 1] - (curve[curve.length - 8] ?? 0);
+      return {
+        strategy: s,
+        totalRegret: curve[curve.length - 1].toFixed(1),
+        finalWeekPerPost: (lastWeek / (Math.min(7, curve.length) * postsPerDay)).toFixed(3),
+      };
+    })
+  );
+
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/db";
 import { accounts } from "@/lib/db/schema";
+import { createSnapshot } from "@/lib/modules/bandit-snapshots";
 import { eq, desc } from "drizzle-orm";
 import { z } from "zod";
 
@@ -19,6 +20,8 @@ const accountSchema = z.object({
   isActive: z.boolean().optional().default(true),
   maxPostsPerDay: z.number().int().min(1).max(100).optional(),
   minGapMinutes: z.number().int().min(1).max(1440).optional(),
+  // Start the account's learning from the pooled prior across accounts
+  pooledPrior: z.boolean().optional().default(true),
 });
 
 /**
@@ -50,6 +53,7 @@ export async function GET(request: NextRequest) {
       isActive: account.isActive,
       maxPostsPerDay: account.maxPostsPerDay,
       minGapMinutes: account.minGapMinutes,
+      pooledPrior: account.pooledPrior,
       hasCredentials: {
         x: !!(account.xBearerToken || account.xOAuthAccessToken),
         threads: !!(account.threadsAccessToken && account.threadsUserId),
@@ -89,6 +93,7 @@ export async function POST(request: NextRequest) {
         isActive: validated.isActive ?? true,
         maxPostsPerDay: validated.maxPostsPerDay || (validated.platform === "x" ? 40 : 10),
         minGapMinutes: validated.minGapMinutes || 20,
+        pooledPrior: validated.pooledPrior ?? true,
       })
       .returning();
 
@@ -165,7 +170,15 @@ export async function DELETE(request: NextRequest) {
       return NextResponse.json({ error: "Account ID is required" }, { status: 400 });
     }
 
-    await db.delete(accounts).where(eq(accounts.id, id));
+    const deleted = await db
+      .delete(accounts)
+      .where(eq(accounts.id, id))
+      .returning({ id: accounts.id });
+
+    // The account's arms and template weights went with it: snapshot the state without them
+    if (deleted.length > 0) {
+      await createSnapshot("account_deleted", `account_deleted-${id}`);
+    }
 
     return NextResponse.json({ success: true });
   } catch (error) {
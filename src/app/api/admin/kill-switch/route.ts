@@ -1,26 +1,63 @@
 import { NextRequest } from "next/server";
-import { db } from "@/lib/db";
-import { learningState, systemEvents } from "@/lib/db/schema";
-import { eq } from "drizzle-orm";
+import { z } from "zod";
+import { config } from "@/lib/config";
+import {
+  activateKillSwitch,
+  checkKillSwitch,
+  deactivateKillSwitch,
+  getActivePauses,
+  killSwitchScopes,
+} from "@/lib/modules/kill-switch";
 
 export const dynamic = "force-dynamic";
 
+const targetSchema = z
+  .object({
+    scope: z.enum(killSwitchScopes).default("global"),
+    platform: z.enum(["x", "threads"]).optional(),
+    accountId: z.number().int().positive().optional(),
+  })
+  .refine((t) => t.scope !== "platform" || t.platform, {
+    message: "platform is required for scope platform",
+  })
+  .refine((t) => t.scope !== "account" || t.accountId, {
+    message: "accountId is required for scope account",
+  });
+
+const killSwitchRequestSchema = z.union([
+  // Dashboard toggle: global pause on/off
+  z.object({
+    active: z.boolean(),
+    reason: z.string().max(500).optional(),
+  }),
+  // Pause a scope, optionally for a limited time
+  z.object({
+    action: z.literal("activate"),
+    target: targetSchema,
+    reason: z.string().max(500).optional(),
+    durationMinutes: z.number().int().min(1).max(60 * 24 * 30).optional(),
+    until: z.string().datetime().optional(),
+  }),
+  // Lift the pause on a scope
+  z.object({
+    action: z.literal("deactivate"),
+    target: targetSchema,
+  }),
+]);
+
 /**
- * API: Get/Set kill switch status
+ * API: Get kill switch status (global state and all active pauses)
  */
 export async function GET() {
   try {
-    const state = await db.query.learningState.findFirst({
-      where: eq(learningState.key, "kill_switch"),
-    });
+    const [pauses, global] = await Promise.all([getActivePauses(), checkKillSwitch()]);
 
     return Response.json({
-      killSwitch: (state?.value as { active?: boolean })?.active || false,
-      envKillSwitch: process.env.KILL_SWITCH === "true",
-      effectiveKillSwitch:
-        process.env.KILL_SWITCH === "true" ||
-        (state?.value as { active?: boolean })?.active ||
-        false,
+      killSwitch: pauses.some((p) => p.scope === "global"),
+      envKillSwitch: config.killSwitch,
+      effectiveKillSwitch: global.active,
+      reason: global.active ? global.reason : null,
+      pauses,
     });
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
@@ -28,39 +65,46 @@ export async function GET() {
   }
 }
 
+/**
+ * API: Toggle the global kill switch, or pause / resume a scope
+ */
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const active = Boolean(body.active);
+    const validated = killSwitchRequestSchema.parse(body);
 
-    const existing = await db.query.learningState.findFirst({
-      where: eq(learningState.key, "kill_switch"),
-    });
+    if ("active" in validated) {
+      if (validated.active) {
+        await activateKillSwitch({ scope: "global" }, { reason: validated.reason });
+      } else {
+        await deactivateKillSwitch({ scope: "global" });
+      }
+      return Response.json({ success: true, killSwitch: validated.active });
+    }
 
-    if (existing) {
-      await db
-        .update(learningState)
-        .set({ value: { active }, updatedAt: new Date() })
-        .where(eq(learningState.id, existing.id));
-    } else {
-      await db.insert(learningState).values({
-        key: "kill_switch",
-        value: { active },
+    if (validated.action === "activate") {
+      const until = validated.until
+        ? new Date(validated.until)
+        : validated.durationMinutes
+          ? new Date(Date.now() + validated.durationMinutes * 60 * 1000)
+          : undefined;
+      const pause = await activateKillSwitch(validated.target, {
+        reason: validated.reason,
+        until,
       });
+      return Response.json({ success: true, pause });
     }
 
-    // Log the action
-    await db.insert(systemEvents).values({
-      eventType: "kill_switch_toggle",
-      severity: active ? "warn" : "info",
-      message: `Kill switch ${active ? "activated" : "deactivated"}`,
-      metadata: { active },
-    });
-
-    return Response.json({ success: true, killSwitch: active });
+    const lifted = await deactivateKillSwitch(validated.target);
+    if (!lifted) {
+      return Response.json({ error: "Scope is not paused" }, { status: 404 });
+    }
+    return Response.json({ success: true });
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return Response.json({ error: error.issues }, { status: 400 });
+    }
     const message = error instanceof Error ? error.message : String(error);
     return Response.json({ error: message }, { status: 500 });
   }
 }
-
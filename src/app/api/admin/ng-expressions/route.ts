@@ -0,0 +1,196 @@
+import { NextRequest } from "next/server";
+import { z } from "zod";
+import {
+  createNgExpression,
+  deleteNgExpression,
+  dryRunNgExpressions,
+  getNgExpression,
+  getNgPatternError,
+  importNgExpressions,
+  listNgExpressions,
+  ngExpressionsToCsv,
+  ngPatternTypes,
+  type NgPatternType,
+  parseNgExpressionsCsv,
+  updateNgExpression,
+} from "@/lib/modules/ng-expressions";
+
+export const dynamic = "force-dynamic";
+
+const ruleFields = z.object({
+  pattern: z.string().min(1).max(500),
+  patternType: z.enum(ngPatternTypes),
+  category: z.string().max(32).nullable().optional(),
+  severity: z.number().min(0).max(1).optional(),
+  isActive: z.boolean().optional(),
+});
+
+// Regex patterns must compile
+const ruleSchema = ruleFields
+  .extend({ patternType: z.enum(ngPatternTypes).default("exact") })
+  .superRefine((rule, ctx) => {
+    const error = getNgPatternError(rule.pattern, rule.patternType);
+    if (error) ctx.addIssue({ code: "custom", message: error, path: ["pattern"] });
+  });
+
+const modeSchema = z.enum(["merge", "replace"]).default("merge");
+
+const ngExpressionRequestSchema = z.union([
+  z.object({
+    action: z.literal("create"),
+    expression: ruleSchema,
+  }),
+  z.object({
+    action: z.literal("update"),
+    id: z.number().int().positive(),
+    updates: ruleFields.partial(),
+  }),
+  z.object({
+    action: z.literal("delete"),
+    id: z.number().int().positive(),
+  }),
+  // Bulk import; "replace" deletes expressions missing from the import
+  z.object({
+    action: z.literal("import"),
+    format: z.literal("json"),
+    expressions: z.array(ruleSchema).max(5000),
+    mode: modeSchema,
+  }),
+  z.object({
+    action: z.literal("import"),
+    format: z.literal("csv"),
+    csv: z.string().min(1),
+    mode: modeSchema,
+  }),
+  // Report what a rule set (default: the active expressions) would match in recent drafts
+  z.object({
+    action: z.literal("dry_run"),
+    expressions: z.array(ruleSchema).max(5000).optional(),
+    limit: z.number().int().min(1).max(1000).optional(),
+  }),
+]);
+
+/**
+ * CSV rows to rule objects (validated afterwards like JSON input)
+ */
+function csvToRules(csv: string) {
+  return parseNgExpressionsCsv(csv).map((row) => ({
+    pattern: row.pattern,
+    patternType: row.patternType || undefined,
+    category: row.category || null,
+    severity: row.severity ? Number(row.severity) : undefined,
+    isActive: row.isActive ? !["false", "0"].includes(row.isActive.toLowerCase()) : undefined,
+  }));
+}
+
+/**
+ * API: List NG expressions (?activeOnly=true), or export them with ?format=csv|json
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const format = z
+      .enum(["csv", "json"])
+      .optional()
+      .parse(params.get("format") || undefined);
+    const expressions = await listNgExpressions(params.get("activeOnly") === "true");
+
+    if (format === "csv") {
+      return new Response(ngExpressionsToCsv(expressions), {
+        headers: {
+          "Content-Type": "text/csv; charset=utf-8",
+          "Content-Disposition": 'attachment; filename="ng-expressions.csv"',
+        },
+      });
+    }
+
+    if (format === "json") {
+      // Same shape the JSON import accepts
+      const rules = expressions.map(({ pattern, patternType, category, severity, isActive }) => ({
+        pattern,
+        patternType,
+        category,
+        severity,
+        isActive,
+      }));
+      return new Response(JSON.stringify({ expressions: rules }, null, 2), {
+        headers: {
+          "Content-Type": "application/json; charset=utf-8",
+          "Content-Disposition": 'attachment; filename="ng-expressions.json"',
+        },
+      });
+    }
+
+    return Response.json({ expressions });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return Response.json({ error: error.issues }, { status: 400 });
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    return Response.json({ error: message }, { status: 500 });
+  }
+}
+
+/**
+ * API: Create, update, delete, bulk import or dry-run NG expressions
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const validated = ngExpressionRequestSchema.parse(body);
+
+    if (validated.action === "create") {
+      const expression = await createNgExpression(validated.expression);
+      return Response.json({ success: true, expression });
+    }
+
+    if (validated.action === "update") {
+      const existing = await getNgExpression(validated.id);
+      if (!existing) {
+        return Response.json({ error: "NG expression not found" }, { status: 404 });
+      }
+      const patternError = getNgPatternError(
+        validated.updates.pattern ?? existing.pattern,
+        validated.updates.patternType ?? existing.patternType
+      );
+      if (patternError) {
+        return Response.json({ error: patternError }, { status: 400 });
+      }
+      const expression = await updateNgExpression(validated.id, validated.updates);
+      return Response.json({ success: true, expression });
+    }
+
+    if (validated.action === "delete") {
+      if (!(await deleteNgExpression(validated.id))) {
+        return Response.json({ error: "NG expression not found" }, { status: 404 });
+      }
+      return Response.json({ success: true });
+    }
+
+    if (validated.action === "import") {
+      const rules =
+        validated.format === "csv"
+          ? z.array(ruleSchema).max(5000).parse(csvToRules(validated.csv))
+          : validated.expressions;
+      const result = await importNgExpressions(rules, validated.mode);
+      return Response.json({ success: true, ...result });
+    }
+
+    const rules =
+      validated.expressions ??
+      (await listNgExpressions(true)).map((e) => ({
+        pattern: e.pattern,
+        patternType: e.patternType as NgPatternType,
+        category: e.category,
+        severity: e.severity,
+      }));
+    const report = await dryRunNgExpressions(rules, validated.limit);
+    return Response.json(report);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return Response.json({ error: error.issues }, { status: 400 });
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    return Response.json({ error: message }, { status: 500 });
+  }
+}
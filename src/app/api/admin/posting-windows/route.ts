@@ -0,0 +1,100 @@
+import { NextRequest } from "next/server";
+import { z } from "zod";
+import {
+  getPostingWindow,
+  listPostingWindows,
+  setPostingWindow,
+} from "@/lib/modules/posting-window";
+
+export const dynamic = "force-dynamic";
+
+const targetSchema = z.union([
+  z.object({ scope: z.literal("platform"), platform: z.enum(["x", "threads"]) }),
+  z.object({ scope: z.literal("account"), accountId: z.number().int().positive() }),
+]);
+
+const windowSchema = z.object({
+  allowedHours: z.array(z.number().int().min(0).max(23)).min(1).max(24).optional(),
+  blackoutDates: z
+    .array(z.string().regex(/^\d{4}-\d{2}-\d{2}$/))
+    .max(366)
+    .optional(),
+  weekdayCaps: z
+    .partialRecord(
+      z.enum(["0", "1", "2", "3", "4", "5", "6"]),
+      z.number().int().min(0).max(100)
+    )
+    .optional(),
+});
+
+const postingWindowRequestSchema = z.union([
+  // Replace a platform's or account's override
+  z.object({
+    action: z.literal("set"),
+    target: targetSchema,
+    window: windowSchema,
+  }),
+  // Drop the override (back to the platform window / env defaults)
+  z.object({
+    action: z.literal("clear"),
+    target: targetSchema,
+  }),
+]);
+
+/**
+ * API: List posting windows, or the window in effect for ?platform= (&accountId=)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const platform = z
+      .enum(["x", "threads"])
+      .optional()
+      .parse(params.get("platform") || undefined);
+
+    if (platform) {
+      const accountId = z.coerce
+        .number()
+        .int()
+        .positive()
+        .optional()
+        .parse(params.get("accountId") || undefined);
+      return Response.json({
+        platform,
+        accountId: accountId ?? null,
+        window: await getPostingWindow(platform, accountId),
+      });
+    }
+
+    return Response.json(await listPostingWindows());
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return Response.json({ error: error.issues }, { status: 400 });
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    return Response.json({ error: message }, { status: 500 });
+  }
+}
+
+/**
+ * API: Set or clear a platform / account posting window
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const validated = postingWindowRequestSchema.parse(body);
+
+    await setPostingWindow(
+      validated.target,
+      validated.action === "set" ? validated.window : null
+    );
+
+    return Response.json({ success: true, ...(await listPostingWindows()) });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return Response.json({ error: error.issues }, { status: 400 });
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    return Response.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,154 @@
+import { NextRequest } from "next/server";
+import { z } from "zod";
+import { listReviewModes, setReviewMode } from "@/lib/modules/review-mode";
+import {
+  approvePost,
+  editPost,
+  getScheduledPost,
+  listAwaitingReview,
+  regeneratePost,
+  rejectPost,
+  reviewRejectReasons,
+  type ReviewRejectReason,
+} from "@/lib/modules/review-queue";
+
+export const dynamic = "force-dynamic";
+
+const reasonSchema = z.enum(
+  Object.keys(reviewRejectReasons) as [ReviewRejectReason, ...ReviewRejectReason[]]
+);
+
+const targetSchema = z.union([
+  z.object({ scope: z.literal("platform"), platform: z.enum(["x", "threads"]) }),
+  z.object({ scope: z.literal("account"), accountId: z.number().int().positive() }),
+]);
+
+const idSchema = z.number().int().positive();
+const noteSchema = z.string().max(1000).optional();
+
+const reviewRequestSchema = z.union([
+  z.object({
+    action: z.literal("approve"),
+    id: idSchema,
+    note: noteSchema,
+  }),
+  // Policy checks are re-run on the new content; with approve, it is queued right away
+  z.object({
+    action: z.literal("edit"),
+    id: idSchema,
+    content: z.string().trim().min(1).max(5000),
+    approve: z.boolean().optional(),
+    note: noteSchema,
+  }),
+  // The reason code decides the penalty on the draft's arm
+  z.object({
+    action: z.literal("reject"),
+    id: idSchema,
+    reason: reasonSchema,
+    note: noteSchema,
+  }),
+  // New draft for the same slot; with a reason, the old one is rejected (and penalized) first
+  z.object({
+    action: z.literal("regenerate"),
+    id: idSchema,
+    reason: reasonSchema.optional(),
+    note: noteSchema,
+  }),
+  // Review mode on / off for a platform or account; null drops the setting
+  z.object({
+    action: z.literal("set_mode"),
+    target: targetSchema,
+    enabled: z.boolean().nullable(),
+  }),
+]);
+
+/**
+ * API: Drafts awaiting review (?platform=, ?accountId=), review mode settings and reason codes
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const platform = z
+      .enum(["x", "threads"])
+      .optional()
+      .parse(params.get("platform") || undefined);
+    const accountId = z.coerce
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .parse(params.get("accountId") || undefined);
+
+    const [posts, modes] = await Promise.all([
+      listAwaitingReview({ platform, accountId }),
+      listReviewModes(),
+    ]);
+
+    return Response.json({
+      posts,
+      modes,
+      reasons: Object.entries(reviewRejectReasons).map(([code, penaltyShare]) => ({
+        code,
+        penaltyShare,
+      })),
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return Response.json({ error: error.issues }, { status: 400 });
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    return Response.json({ error: message }, { status: 500 });
+  }
+}
+
+/**
+ * API: Approve, edit, reject or regenerate a draft awaiting review, or set review mode
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const validated = reviewRequestSchema.parse(body);
+
+    if (validated.action === "set_mode") {
+      await setReviewMode(validated.target, validated.enabled);
+      return Response.json({ success: true, modes: await listReviewModes() });
+    }
+
+    if (!(await getScheduledPost(validated.id))) {
+      return Response.json({ error: "Scheduled post not found" }, { status: 404 });
+    }
+
+    if (validated.action === "regenerate") {
+      const result = await regeneratePost(validated.id, {
+        reason: validated.reason,
+        note: validated.note,
+      });
+      if (!result.success) {
+        // Not awaiting review: nothing changed. Otherwise the old draft is gone but no new one passed.
+        return Response.json(result, { status: result.replaced ? 500 : 400 });
+      }
+      return Response.json(result);
+    }
+
+    const result =
+      validated.action === "approve"
+        ? await approvePost(validated.id, validated.note)
+        : validated.action === "edit"
+          ? await editPost(validated.id, validated.content, {
+              approve: validated.approve,
+              note: validated.note,
+            })
+          : await rejectPost(validated.id, validated.reason, validated.note);
+
+    if (!result.success) {
+      return Response.json(result, { status: 400 });
+    }
+    return Response.json(result);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return Response.json({ error: error.issues }, { status: 400 });
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    return Response.json({ error: message }, { status: 500 });
+  }
+}
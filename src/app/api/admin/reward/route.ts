@@ -0,0 +1,90 @@
+import { NextRequest } from "next/server";
+import { z } from "zod";
+import {
+  listRewardDefinitions,
+  createRewardDefinition,
+  activateRewardDefinition,
+  getActiveRewardDefinition,
+  getRewardKey,
+  rewardSignals,
+} from "@/lib/modules/reward";
+
+export const dynamic = "force-dynamic";
+
+const weightsSchema = z.partialRecord(z.enum(rewardSignals), z.number().min(0).max(10));
+
+const rewardRequestSchema = z.union([
+  // Activate an existing (or built-in) definition
+  z.object({
+    action: z.literal("activate"),
+    name: z.string().min(1).max(64),
+    version: z.number().int().min(1),
+  }),
+  // Create a new version of a definition
+  z.object({
+    action: z.literal("create"),
+    name: z.string().min(1).max(64).regex(/^[a-z0-9_]+$/),
+    description: z.string().max(200).optional(),
+    weights: z.object({ x: weightsSchema, threads: weightsSchema }),
+    activate: z.boolean().optional().default(false),
+  }),
+]);
+
+/**
+ * API: List reward definitions and the active one
+ */
+export async function GET() {
+  try {
+    const [definitions, active] = await Promise.all([
+      listRewardDefinitions(),
+      getActiveRewardDefinition(),
+    ]);
+
+    return Response.json({ active: getRewardKey(active), definitions });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return Response.json({ error: message }, { status: 500 });
+  }
+}
+
+/**
+ * API: Create or activate a reward definition
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const validated = rewardRequestSchema.parse(body);
+
+    if (validated.action === "activate") {
+      const activated = await activateRewardDefinition(validated.name, validated.version);
+      if (!activated) {
+        return Response.json({ error: "Reward definition not found" }, { status: 404 });
+      }
+      return Response.json({
+        success: true,
+        active: getRewardKey(validated),
+      });
+    }
+
+    const created = await createRewardDefinition({
+      name: validated.name,
+      description: validated.description,
+      weights: validated.weights,
+    });
+    if (validated.activate) {
+      await activateRewardDefinition(created.name, created.version);
+    }
+
+    return Response.json({
+      success: true,
+      created: getRewardKey(created),
+      active: getRewardKey(await getActiveRewardDefinition()),
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return Response.json({ error: error.issues }, { status: 400 });
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    return Response.json({ error: message }, { status: 500 });
+  }
+}
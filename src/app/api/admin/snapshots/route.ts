@@ -0,0 +1,88 @@
+import { NextRequest } from "next/server";
+import { z } from "zod";
+import {
+  listSnapshots,
+  diffSnapshots,
+  createSnapshot,
+  rollbackToSnapshot,
+} from "@/lib/modules/bandit-snapshots";
+
+export const dynamic = "force-dynamic";
+
+const snapshotRequestSchema = z.union([
+  // Take a manual snapshot of the current learning state
+  z.object({
+    action: z.literal("create"),
+    name: z.string().min(1).max(128).optional(),
+  }),
+  // Restore the learning state from a snapshot
+  z.object({
+    action: z.literal("rollback"),
+    id: z.number().int().min(1),
+  }),
+]);
+
+const diffQuerySchema = z.object({
+  from: z.coerce.number().int().min(1),
+  to: z.coerce.number().int().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(500).optional().default(50),
+});
+
+/**
+ * API: List snapshots, or diff two of them with ?from=&to= (to omitted: current state)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+
+    if (!searchParams.has("from")) {
+      return Response.json({ snapshots: await listSnapshots() });
+    }
+
+    const query = diffQuerySchema.parse({
+      from: searchParams.get("from"),
+      to: searchParams.get("to") || undefined,
+      limit: searchParams.get("limit") || undefined,
+    });
+    const diff = await diffSnapshots(query.from, query.to, query.limit);
+    if (!diff) {
+      return Response.json({ error: "Snapshot not found" }, { status: 404 });
+    }
+
+    return Response.json(diff);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return Response.json({ error: error.issues }, { status: 400 });
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    return Response.json({ error: message }, { status: 500 });
+  }
+}
+
+/**
+ * API: Create a snapshot or roll back to one
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const validated = snapshotRequestSchema.parse(body);
+
+    if (validated.action === "create") {
+      const snapshot = await createSnapshot("manual", validated.name);
+      return Response.json({ success: true, snapshot });
+    }
+
+    const rollback = await rollbackToSnapshot(validated.id);
+    if (!rollback) {
+      return Response.json({ error: "Snapshot not found" }, { status: 404 });
+    }
+
+    return Response.json({ success: true, ...rollback });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return Response.json({ error: error.issues }, { status: 400 });
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    return Response.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,86 @@
+import { NextRequest } from "next/server";
+import { z } from "zod";
+import {
+  listTopics,
+  setTopicStatus,
+  addTopic,
+  discoverTopics,
+  topicStatuses,
+} from "@/lib/modules/topic-miner";
+
+export const dynamic = "force-dynamic";
+
+// Topic names become part of ":"-separated arm ids
+const topicNameSchema = z.string().min(1).max(64).regex(/^[^:*]+$/);
+
+const topicRequestSchema = z.union([
+  // Activate, propose or retire a catalog topic
+  z.object({
+    action: z.literal("set_status"),
+    name: topicNameSchema,
+    status: z.enum(topicStatuses),
+  }),
+  // Add an active topic by hand
+  z.object({
+    action: z.literal("create"),
+    name: topicNameSchema,
+    keywords: z.array(z.string().min(1).max(64)).max(20).optional(),
+  }),
+  // Run topic discovery now
+  z.object({
+    action: z.literal("discover"),
+    days: z.number().int().min(1).max(90).optional(),
+  }),
+]);
+
+/**
+ * API: List the topic catalog (?status=active|proposed|retired)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const status = z
+      .enum(topicStatuses)
+      .optional()
+      .parse(request.nextUrl.searchParams.get("status") || undefined);
+
+    return Response.json({ topics: await listTopics(status) });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return Response.json({ error: error.issues }, { status: 400 });
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    return Response.json({ error: message }, { status: 500 });
+  }
+}
+
+/**
+ * API: Change a topic's status, add a topic, or run discovery
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const validated = topicRequestSchema.parse(body);
+
+    if (validated.action === "set_status") {
+      const topic = await setTopicStatus(validated.name, validated.status);
+      if (!topic) {
+        return Response.json({ error: "Topic not found" }, { status: 404 });
+      }
+      return Response.json({ success: true, topic });
+    }
+
+    if (validated.action === "create") {
+      const topic = await addTopic(validated.name, validated.keywords);
+      return Response.json({ success: true, topic });
+    }
+
+    const discovery = await discoverTopics(validated.days);
+    return Response.json({ success: true, ...discovery });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return Response.json({ error: error.issues }, { status: 400 });
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    return Response.json({ error: message }, { status: 500 });
+  }
+}
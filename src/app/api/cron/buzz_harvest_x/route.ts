@@ -6,7 +6,7 @@ import {
   successResponse,
   errorResponse,
 } from "@/lib/utils/cron-auth";
-import { config } from "@/lib/config";
+import { checkKillSwitch } from "@/lib/modules/kill-switch";
 import { isCronEnabled } from "@/lib/utils/cron-check";
 
 export const dynamic = "force-dynamic";
@@ -21,8 +21,9 @@ export async function GET(request: NextRequest) {
     return unauthorizedResponse();
   }
 
-  if (config.killSwitch) {
-    return errorResponse("Kill switch is active", 503);
+  const killSwitch = await checkKillSwitch();
+  if (killSwitch.active) {
+    return errorResponse(killSwitch.reason, 503);
   }
 
   // Check if this cron is enabled
@@ -6,7 +6,10 @@ import {
   successResponse,
   errorResponse,
 } from "@/lib/utils/cron-auth";
-import { config } from "@/lib/config";
+import { db } from "@/lib/db";
+import { accounts } from "@/lib/db/schema";
+import { checkKillSwitch } from "@/lib/modules/kill-switch";
+import { eq } from "drizzle-orm";
 import { isCronEnabled } from "@/lib/utils/cron-check";
 
 export const dynamic = "force-dynamic";
@@ -15,14 +18,16 @@ export const maxDuration = 300; // 5 minutes for multiple post generation
 /**
  * Cron: Generate and schedule posts
  * Recommended schedule: 2-4 times daily
+ * ?accountId= generates for one account (on its platform) from its own learning state
  */
 export async function GET(request: NextRequest) {
   if (!verifyCronAuth(request)) {
     return unauthorizedResponse();
   }
 
-  if (config.killSwitch) {
-    return errorResponse("Kill switch is active", 503);
+  const killSwitch = await checkKillSwitch();
+  if (killSwitch.active) {
+    return errorResponse(killSwitch.reason, 503);
   }
 
   if (!(await isCronEnabled("generate"))) {
@@ -34,9 +39,27 @@ export async function GET(request: NextRequest) {
     const url = new URL(request.url);
     const platform = url.searchParams.get("platform") as "x" | "threads" | null;
     const count = parseInt(url.searchParams.get("count") || "3", 10);
+    const accountIdParam = url.searchParams.get("accountId");
 
     const results: Record<string, Awaited<ReturnType<typeof generateAndSchedule>>> = {};
 
+    if (accountIdParam) {
+      const account = await db.query.accounts.findFirst({
+        where: eq(accounts.id, parseInt(accountIdParam, 10) || 0),
+      });
+      if (!account) {
+        return errorResponse("Account not found", 404);
+      }
+
+      const accountPlatform = account.platform as "x" | "threads";
+      results[accountPlatform] = await generateAndSchedule(
+        accountPlatform,
+        accountPlatform === "threads" ? Math.min(count, 2) : count,
+        { accountId: account.id }
+      );
+      return successResponse(results);
+    }
+
     // Generate for specified platform or both
     if (!platform || platform === "x") {
       results.x = await generateAndSchedule("x", count);
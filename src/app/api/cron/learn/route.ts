@@ -1,14 +1,16 @@
 import { NextRequest } from "next/server";
-import { synthesizeTemplates } from "@/lib/modules/template-synthesizer";
+import { synthesizeTemplates, synthesizeAccountWeights } from "@/lib/modules/template-synthesizer";
 import { runLearningUpdate } from "@/lib/modules/bandit";
 import { getPatternDistribution } from "@/lib/modules/pattern-miner";
+import { maintainDuplicateIndex } from "@/lib/modules/duplicate-index";
+import { maintainPlagiarismIndex } from "@/lib/modules/plagiarism-index";
 import {
   verifyCronAuth,
   unauthorizedResponse,
   successResponse,
   errorResponse,
 } from "@/lib/utils/cron-auth";
-import { config } from "@/lib/config";
+import { checkKillSwitch } from "@/lib/modules/kill-switch";
 import { isCronEnabled } from "@/lib/utils/cron-check";
 
 export const dynamic = "force-dynamic";
@@ -23,8 +25,9 @@ export async function GET(request: NextRequest) {
     return unauthorizedResponse();
   }
 
-  if (config.killSwitch) {
-    return errorResponse("Kill switch is active", 503);
+  const killSwitch = await checkKillSwitch();
+  if (killSwitch.active) {
+    return errorResponse(killSwitch.reason, 503);
   }
 
   if (!(await isCronEnabled("learn"))) {
@@ -35,15 +38,27 @@ export async function GET(request: NextRequest) {
     // Step 1: Synthesize template weights from patterns
     const templateResult = await synthesizeTemplates();
 
+    // Step 1b: Adjust them per account from each account's own results
+    const accountWeightResult = await synthesizeAccountWeights();
+
     // Step 2: Update bandit arms from self metrics
     const banditResult = await runLearningUpdate();
 
     // Step 3: Get current pattern distribution for reporting
     const distribution = await getPatternDistribution(7);
 
+    // Step 4: Prune and backfill the near-duplicate index
+    const duplicateIndexResult = await maintainDuplicateIndex();
+
+    // Step 5: Prune and backfill the external post n-grams for the plagiarism check
+    const plagiarismIndexResult = await maintainPlagiarismIndex();
+
     return successResponse({
       templates: templateResult,
+      accountWeights: accountWeightResult,
       bandit: banditResult,
+      duplicateIndex: duplicateIndexResult,
+      plagiarismIndex: plagiarismIndexResult,
       patternStats: {
         formats: Object.entries(distribution.formats)
           .sort(([, a], [, b]) => b.avgBuzz - a.avgBuzz)
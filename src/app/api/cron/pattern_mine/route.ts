@@ -1,20 +1,21 @@
 import { NextRequest } from "next/server";
 import { minePatterns, getPatternDistribution } from "@/lib/modules/pattern-miner";
 import { injectExternalPriors } from "@/lib/modules/bandit";
+import { discoverTopics } from "@/lib/modules/topic-miner";
 import {
   verifyCronAuth,
   unauthorizedResponse,
   successResponse,
   errorResponse,
 } from "@/lib/utils/cron-auth";
-import { config } from "@/lib/config";
+import { checkKillSwitch } from "@/lib/modules/kill-switch";
 import { isCronEnabled } from "@/lib/utils/cron-check";
 
 export const dynamic = "force-dynamic";
 export const maxDuration = 120;
 
 /**
- * Cron: Mine patterns from top buzz posts
+ * Cron: Mine patterns and topics from top buzz posts
  * Recommended schedule: twice daily
  */
 export async function GET(request: NextRequest) {
@@ -22,8 +23,9 @@ export async function GET(request: NextRequest) {
     return unauthorizedResponse();
   }
 
-  if (config.killSwitch) {
-    return errorResponse("Kill switch is active", 503);
+  const killSwitch = await checkKillSwitch();
+  if (killSwitch.active) {
+    return errorResponse(killSwitch.reason, 503);
   }
 
   if (!(await isCronEnabled("pattern_mine"))) {
@@ -41,8 +43,12 @@ export async function GET(request: NextRequest) {
     await injectExternalPriors("x", distribution);
     await injectExternalPriors("threads", distribution);
 
+    // Step 4: Propose new topics from recurring phrases
+    const topicResult = await discoverTopics();
+
     return successResponse({
       mining: mineResult,
+      topics: topicResult,
       distribution: {
         formats: Object.keys(distribution.formats).length,
         hookTypes: Object.keys(distribution.hookTypes).length,
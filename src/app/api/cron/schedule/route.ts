@@ -1,6 +1,6 @@
 import { NextRequest } from "next/server";
 import { db } from "@/lib/db";
-import { scheduledPosts } from "@/lib/db/schema";
+import { queuedPostStatuses, scheduledPosts } from "@/lib/db/schema";
 import { generateAndSchedule, getOptimalPostingTimes } from "@/lib/modules/generator";
 import {
   verifyCronAuth,
@@ -9,8 +9,9 @@ import {
   errorResponse,
 } from "@/lib/utils/cron-auth";
 import { config } from "@/lib/config";
+import { checkKillSwitch } from "@/lib/modules/kill-switch";
 import { isCronEnabled } from "@/lib/utils/cron-check";
-import { eq, and, gte } from "drizzle-orm";
+import { and, gte, inArray } from "drizzle-orm";
 
 export const dynamic = "force-dynamic";
 export const maxDuration = 60;
@@ -24,8 +25,9 @@ export async function GET(request: NextRequest) {
     return unauthorizedResponse();
   }
 
-  if (config.killSwitch) {
-    return errorResponse("Kill switch is active", 503);
+  const killSwitch = await checkKillSwitch();
+  if (killSwitch.active) {
+    return errorResponse(killSwitch.reason, 503);
   }
 
   if (!(await isCronEnabled("schedule"))) {
@@ -39,7 +41,7 @@ export async function GET(request: NextRequest) {
     // Check scheduled posts for next 24 hours
     const pendingPosts = await db.query.scheduledPosts.findMany({
       where: and(
-        eq(scheduledPosts.status, "pending"),
+        inArray(scheduledPosts.status, queuedPostStatuses),
         gte(scheduledPosts.scheduledFor, now)
       ),
     });
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { verifyCronAuth, unauthorizedResponse, errorResponse } from "@/lib/utils/cron-auth";
-import { config } from "@/lib/config";
+import { checkKillSwitch } from "@/lib/modules/kill-switch";
 
 export const dynamic = "force-dynamic";
 export const maxDuration = 600; // 10 minutes max for manual triggers (especially for generate)
@@ -23,8 +23,9 @@ export async function POST(request: NextRequest) {
       return errorResponse("Cron name is required", 400);
     }
 
-    if (config.killSwitch) {
-      return errorResponse("Kill switch is active", 503);
+    const killSwitch = await checkKillSwitch();
+    if (killSwitch.active) {
+      return errorResponse(killSwitch.reason, 503);
     }
 
     // Map cron names to API endpoints
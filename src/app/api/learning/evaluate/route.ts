@@ -0,0 +1,51 @@
+import { NextRequest } from "next/server";
+import { z } from "zod";
+import {
+  evaluatePolicies,
+  targetPolicyNames,
+  type TargetPolicyName,
+} from "@/lib/modules/offline-evaluator";
+
+export const dynamic = "force-dynamic";
+export const maxDuration = 60;
+
+/**
+ * API: Offline policy evaluation (IPS / doubly robust) over logged selections
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const url = new URL(request.url);
+    const platform = z
+      .enum(["x", "threads"])
+      .optional()
+      .parse(url.searchParams.get("platform") || undefined);
+    const days = z.coerce
+      .number()
+      .int()
+      .min(1)
+      .max(365)
+      .default(30)
+      .parse(url.searchParams.get("days") || undefined);
+    const policiesParam = url.searchParams.get("policies");
+
+    const policies = policiesParam
+      ? (policiesParam
+          .split(",")
+          .filter((p) => targetPolicyNames.includes(p as TargetPolicyName)) as TargetPolicyName[])
+      : undefined;
+
+    const report = await evaluatePolicies({
+      platform,
+      days,
+      policies,
+    });
+
+    return Response.json(report);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return Response.json({ error: error.issues }, { status: 400 });
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    return Response.json({ error: message }, { status: 500 });
+  }
+}
@@ -1,26 +1,43 @@
 import { NextRequest } from "next/server";
 import { db } from "@/lib/db";
-import { armPriors, templateWeights, patterns } from "@/lib/db/schema";
+import { accounts, armPriors, templateWeights, patterns, selectionLogs } from "@/lib/db/schema";
 import { getCurrentWeights } from "@/lib/modules/template-synthesizer";
 import { getPatternDistribution } from "@/lib/modules/pattern-miner";
-import { desc, eq, gte } from "drizzle-orm";
+import { armScope, loadAccountBanditStore } from "@/lib/modules/bandit-store";
+import { loadEarlyRewardModel } from "@/lib/modules/early-reward";
+import { config } from "@/lib/config";
+import { and, desc, eq, gte } from "drizzle-orm";
 
 export const dynamic = "force-dynamic";
 
 /**
- * API: Get learning state (bandit arms, template weights, patterns)
+ * API: Get learning state (bandit arms, template weights, patterns).
+ * ?accountId= shows that account's own state instead of the pooled one.
  */
 export async function GET(request: NextRequest) {
   try {
     const url = new URL(request.url);
     const platform = (url.searchParams.get("platform") as "x" | "threads") || "x";
+    const accountIdParam = url.searchParams.get("accountId");
+    const accountId = accountIdParam ? parseInt(accountIdParam, 10) : undefined;
+    if (accountId !== undefined && (!Number.isInteger(accountId) || accountId <= 0)) {
+      return Response.json({ error: "Invalid accountId" }, { status: 400 });
+    }
+
+    if (accountId !== undefined) {
+      const account = await db.query.accounts.findFirst({ where: eq(accounts.id, accountId) });
+      if (!account) {
+        return Response.json({ error: "Account not found" }, { status: 404 });
+      }
+    }
+    const store = await loadAccountBanditStore(accountId);
 
     // Get current template weights
-    const weights = await getCurrentWeights(platform);
+    const weights = await getCurrentWeights(platform, accountId);
 
     // Get top arms
     const topArms = await db.query.armPriors.findMany({
-      where: eq(armPriors.platform, platform),
+      where: and(eq(armPriors.platform, platform), armScope(accountId)),
       orderBy: desc(armPriors.pullCount),
       limit: 20,
     });
@@ -34,12 +51,32 @@ export async function GET(request: NextRequest) {
       limit: 10,
     });
 
+    // Exploration budget usage (last 7 days) and arm retirement decisions
+    const [retirement, recentSelections, earlyReward] = await Promise.all([
+      store.getRetirementState(platform),
+      db.query.selectionLogs.findMany({
+        where: and(
+          eq(selectionLogs.platform, platform),
+          accountId ? eq(selectionLogs.accountId, accountId) : undefined,
+          gte(selectionLogs.createdAt, new Date(Date.now() - 7 * 24 * 60 * 60 * 1000))
+        ),
+        columns: { explored: true },
+      }),
+      loadEarlyRewardModel(platform),
+    ]);
+    const exploredSelections = recentSelections.filter((s) => s.explored).length;
+    const retiredArms = Object.entries(retirement.arms).map(([armId, entry]) => ({
+      armId,
+      ...entry,
+    }));
+
     // Calculate exploration vs exploitation stats
     const totalPulls = topArms.reduce((sum, arm) => sum + (arm.pullCount || 0), 0);
     const explorationArms = topArms.filter((arm) => (arm.pullCount || 0) < 5);
 
     return Response.json({
       platform,
+      accountId: accountId ?? null,
       weights: {
         formats: weights.formats,
         hookTypes: weights.hookTypes,
@@ -62,6 +99,27 @@ export async function GET(request: NextRequest) {
         explorationArms: explorationArms.length,
         exploitationRatio: totalPulls > 0 ? 1 - explorationArms.length / topArms.length : 0,
       },
+      exploration: {
+        settings: {
+          share: config.explorationShare,
+          minPulls: config.explorationMinPulls,
+          retireMinPulls: config.armRetireMinPulls,
+          retireZ: config.armRetireZ,
+          retestDays: config.armRetestDays,
+          retestPulls: config.armRetestPulls,
+        },
+        last7Days: {
+          selections: recentSelections.length,
+          explored: exploredSelections,
+          share: recentSelections.length > 0 ? exploredSelections / recentSelections.length : 0,
+        },
+        retired: retiredArms.filter((arm) => arm.status === "retired"),
+        retesting: retiredArms.filter((arm) => arm.status === "retesting"),
+        decisions: retirement.decisions,
+        evaluatedAt: retirement.evaluatedAt || null,
+      },
+      // 6h → 24h / 48h reward fits (pooled); the 24h one drives provisional credits
+      earlyReward,
       patternDistribution: {
         formats: Object.entries(distribution.formats)
           .sort(([, a], [, b]) => b.avgBuzz - a.avgBuzz)
@@ -1,7 +1,7 @@
 import { NextRequest } from "next/server";
 import { db } from "@/lib/db";
-import { publishedPosts, scheduledPosts, metrics } from "@/lib/db/schema";
-import { eq, desc, and, gte } from "drizzle-orm";
+import { publishedPosts, queuedPostStatuses, scheduledPosts, metrics } from "@/lib/db/schema";
+import { eq, desc, and, gte, inArray } from "drizzle-orm";
 
 export const dynamic = "force-dynamic";
 
@@ -43,6 +43,8 @@ export async function GET(request: NextRequest) {
         format?: string | null;
         hookType?: string | null;
         topic?: string | null;
+        safetyPending: boolean;
+        complianceFindings: NonNullable<typeof scheduledPosts.$inferSelect.complianceFindings>;
       }>;
     } = {};
 
@@ -90,8 +92,11 @@ export async function GET(request: NextRequest) {
     if (!type || type === "scheduled") {
       const scheduled = await db.query.scheduledPosts.findMany({
         where: platform
-          ? and(eq(scheduledPosts.platform, platform), eq(scheduledPosts.status, "pending"))
-          : eq(scheduledPosts.status, "pending"),
+          ? and(
+              eq(scheduledPosts.platform, platform),
+              inArray(scheduledPosts.status, queuedPostStatuses)
+            )
+          : inArray(scheduledPosts.status, queuedPostStatuses),
         orderBy: desc(scheduledPosts.scheduledFor),
         limit,
       });
@@ -105,6 +110,8 @@ export async function GET(request: NextRequest) {
         format: post.format,
         hookType: post.hookType,
         topic: post.topic,
+        safetyPending: post.safetyPending,
+        complianceFindings: post.complianceFindings ?? [],
       }));
     }
 
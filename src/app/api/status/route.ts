@@ -4,6 +4,7 @@ import { publishedPosts, scheduledPosts, systemEvents, externalPosts, metrics }
 import { getQueueStatus } from "@/lib/modules/publisher";
 import { getPerformanceSummary } from "@/lib/modules/metrics-collector";
 import { config } from "@/lib/config";
+import { checkKillSwitch, getActivePauses } from "@/lib/modules/kill-switch";
 import { eq, gte, desc, and, count } from "drizzle-orm";
 
 export const dynamic = "force-dynamic";
@@ -57,13 +58,18 @@ export async function GET(request: NextRequest) {
     // Get performance summary
     const performance = await getPerformanceSummary(undefined, 7);
 
+    // Global kill switch, plus any platform / account pauses
+    const [killSwitch, pauses] = await Promise.all([checkKillSwitch(), getActivePauses()]);
+
     return Response.json({
       system: {
-        killSwitch: config.killSwitch,
+        killSwitch: killSwitch.active,
+        pauses,
         timestamp: now.toISOString(),
       },
       queue: {
         pending: queue.pending,
+        awaitingReview: queue.awaitingReview,
         nextScheduled: queue.nextScheduled?.toISOString(),
       },
       todayStats: {
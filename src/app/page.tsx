@@ -4,7 +4,7 @@ import { useEffect, useState } from "react";
 
 interface SystemStatus {
   system: { killSwitch: boolean; timestamp: string };
-  queue: { pending: number; nextScheduled?: string };
+  queue: { pending: number; awaitingReview?: number; nextScheduled?: string };
   todayStats: {
     x: { posted: number; limit: number };
     threads: { posted: number; limit: number };
@@ -39,7 +39,7 @@ interface ConnectionStatus {
   timestamp: string;
 }
 
-type Tab = "dashboard" | "research" | "analytics" | "triggers" | "activity" | "history" | "accounts";
+type Tab = "dashboard" | "review" | "research" | "analytics" | "triggers" | "activity" | "history" | "accounts";
 
 export default function AdminDashboard() {
   const [activeTab, setActiveTab] = useState<Tab>("dashboard");
@@ -187,6 +187,7 @@ export default function AdminDashboard() {
           <div className="flex gap-1 mt-4 border-t border-gray-200">
             {[
               { id: "dashboard" as Tab, label: "ダッシュボード" },
+              { id: "review" as Tab, label: "承認待ち" },
               { id: "activity" as Tab, label: "アクティビティ" },
               { id: "history" as Tab, label: "投稿履歴" },
               { id: "research" as Tab, label: "リサーチ結果" },
@@ -222,6 +223,7 @@ export default function AdminDashboard() {
       {/* Content */}
       <main className="max-w-7xl mx-auto px-6 py-8">
         {activeTab === "dashboard" && <DashboardTab status={status} />}
+        {activeTab === "review" && <ReviewTab />}
         {activeTab === "activity" && <ActivityTab />}
         {activeTab === "history" && <HistoryTab />}
         {activeTab === "research" && <ResearchTab />}
@@ -287,7 +289,9 @@ function DashboardTab({ status }: { status: SystemStatus | null }) {
           <div className="text-3xl font-bold text-gray-900 mb-1">
             {status.queue.pending}
           </div>
-          <p className="text-sm text-gray-600">予約投稿</p>
+          <p className="text-sm text-gray-600">
+            予約投稿{status.queue.awaitingReview ? `（承認待ち ${status.queue.awaitingReview}件）` : ""}
+          </p>
         </div>
       </div>
 
@@ -1016,6 +1020,325 @@ function HistoryTab() {
   );
 }
 
+// Review Tab Component
+const REVIEW_REASON_LABELS: Record<string, string> = {
+  off_brand: "方向性に合わない",
+  inaccurate: "事実誤り",
+  compliance: "法令・規約の懸念",
+  low_quality: "内容が薄い",
+  tone: "トーン・言い回し",
+  duplicate: "既存投稿と類似",
+  other: "その他",
+  timing: "時期が合わない",
+};
+
+interface ReviewDraft {
+  id: number;
+  platform: string;
+  content: string;
+  scheduledFor: string;
+  format: string | null;
+  hookType: string | null;
+  safetyPending: boolean;
+  complianceFindings: Array<{ ruleId: string; description: string; match: string; suggestion: string }> | null;
+}
+
+interface ReviewQueue {
+  posts: ReviewDraft[];
+  modes: { platforms: Record<string, boolean>; accounts: Record<string, boolean> };
+  reasons: Array<{ code: string; penaltyShare: number }>;
+}
+
+function ReviewTab() {
+  const [data, setData] = useState<ReviewQueue | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [platform, setPlatform] = useState<string>("all");
+  const [busyId, setBusyId] = useState<number | null>(null);
+  const [editing, setEditing] = useState<Record<number, string>>({});
+  const [rejectReasons, setRejectReasons] = useState<Record<number, string>>({});
+  const [notes, setNotes] = useState<Record<number, string>>({});
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    const fetchQueue = async () => {
+      try {
+        setLoading(true);
+        const url = platform === "all" ? "/api/admin/review" : `/api/admin/review?platform=${platform}`;
+        const res = await fetch(url);
+        if (!res.ok) throw new Error("データの取得に失敗しました");
+        setData(await res.json());
+        setError(null);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "エラーが発生しました");
+        setData(null);
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchQueue();
+  }, [platform, reloadKey]);
+
+  const reload = () => setReloadKey((key) => key + 1);
+
+  const postAction = async (body: Record<string, unknown>) => {
+    const res = await fetch("/api/admin/review", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    const result = await res.json();
+    if (!res.ok) {
+      throw new Error(typeof result.error === "string" ? result.error : "操作に失敗しました");
+    }
+    return result;
+  };
+
+  const handleAction = async (id: number, body: Record<string, unknown>) => {
+    try {
+      setError(null);
+      setBusyId(id);
+      await postAction({ id, note: notes[id] || undefined, ...body });
+      setEditing((prev) => {
+        const next = { ...prev };
+        delete next[id];
+        return next;
+      });
+      reload();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "エラーが発生しました");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const toggleMode = async (target: Record<string, unknown>, enabled: boolean) => {
+    try {
+      setError(null);
+      await postAction({ action: "set_mode", target, enabled });
+      reload();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "エラーが発生しました");
+    }
+  };
+
+  if (loading && !data) {
+    return (
+      <div className="empty-state">
+        <div className="loading-spinner mx-auto mb-4" />
+        <p className="text-gray-600">読み込み中...</p>
+      </div>
+    );
+  }
+
+  const posts = data?.posts || [];
+  const reasons = data?.reasons || [];
+
+  return (
+    <div className="space-y-6">
+      <div className="card">
+        <h3 className="text-lg font-semibold text-gray-900 mb-4">レビューモード</h3>
+        <div className="flex items-center gap-6">
+          {(["x", "threads"] as const).map((p) => (
+            <label key={p} className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={data?.modes?.platforms?.[p] === true}
+                onChange={(e) => toggleMode({ scope: "platform", platform: p }, e.target.checked)}
+              />
+              {p === "x" ? "X" : "Threads"} の下書きを承認待ちにする
+            </label>
+          ))}
+        </div>
+        {data?.modes?.accounts && Object.keys(data.modes.accounts).length > 0 && (
+          <p className="text-xs text-gray-500 mt-2">
+            アカウント別設定:{" "}
+            {Object.entries(data.modes.accounts)
+              .map(([id, enabled]) => `#${id} ${enabled ? "ON" : "OFF"}`)
+              .join(" / ")}
+          </p>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+          {error}
+        </div>
+      )}
+
+      <div className="card">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-gray-900">承認待ちの下書き</h3>
+          <div className="flex items-center gap-4">
+            <select
+              value={platform}
+              onChange={(e) => setPlatform(e.target.value)}
+              className="px-3 py-1 bg-white border border-gray-300 rounded text-sm"
+            >
+              <option value="all">すべて</option>
+              <option value="x">X</option>
+              <option value="threads">Threads</option>
+            </select>
+            <span className="text-sm text-gray-600">全{posts.length}件</span>
+          </div>
+        </div>
+
+        {posts.length === 0 ? (
+          <div className="empty-state">
+            <div className="empty-state-icon">✅</div>
+            <p>承認待ちの下書きはありません</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {posts.map((post) => {
+              const busy = busyId === post.id;
+              const isEditing = editing[post.id] !== undefined;
+              return (
+                <div key={post.id} className="border border-gray-200 rounded-lg p-4">
+                  <div className="flex items-start justify-between mb-3">
+                    <div className="flex items-center gap-2">
+                      <span className={`badge ${post.platform === "x" ? "badge-primary" : "badge-info"}`}>
+                        {post.platform === "x" ? "X" : "Threads"}
+                      </span>
+                      {post.format && (
+                        <span className="text-xs px-2 py-1 bg-blue-100 text-blue-700 rounded">
+                          {post.format}
+                        </span>
+                      )}
+                      {post.hookType && (
+                        <span className="text-xs px-2 py-1 bg-purple-100 text-purple-700 rounded">
+                          {post.hookType}
+                        </span>
+                      )}
+                      {post.safetyPending && <span className="badge badge-warning">安全性チェック待ち</span>}
+                    </div>
+                    <span className="text-xs text-gray-500">
+                      予定: {new Date(post.scheduledFor).toLocaleString("ja-JP")}
+                    </span>
+                  </div>
+
+                  {isEditing ? (
+                    <textarea
+                      value={editing[post.id]}
+                      onChange={(e) => setEditing((prev) => ({ ...prev, [post.id]: e.target.value }))}
+                      rows={6}
+                      className="w-full px-3 py-2 border border-gray-300 rounded text-sm mb-3"
+                    />
+                  ) : (
+                    <p className="text-sm text-gray-900 mb-3 whitespace-pre-wrap">{post.content}</p>
+                  )}
+
+                  {post.complianceFindings && post.complianceFindings.length > 0 && (
+                    <div className="bg-yellow-50 border border-yellow-200 rounded p-3 mb-3 space-y-1">
+                      {post.complianceFindings.map((finding) => (
+                        <p key={finding.ruleId} className="text-xs text-yellow-800">
+                          ⚠ {finding.description}「{finding.match}」→ {finding.suggestion}
+                        </p>
+                      ))}
+                    </div>
+                  )}
+
+                  <input
+                    type="text"
+                    value={notes[post.id] || ""}
+                    onChange={(e) => setNotes((prev) => ({ ...prev, [post.id]: e.target.value }))}
+                    placeholder="メモ（任意）"
+                    className="w-full px-3 py-2 border border-gray-300 rounded text-sm mb-3"
+                  />
+
+                  <div className="flex flex-wrap items-center gap-2">
+                    {isEditing ? (
+                      <>
+                        <button
+                          disabled={busy}
+                          onClick={() => handleAction(post.id, { action: "edit", content: editing[post.id] })}
+                          className="btn btn-secondary text-sm"
+                        >
+                          保存
+                        </button>
+                        <button
+                          disabled={busy}
+                          onClick={() =>
+                            handleAction(post.id, { action: "edit", content: editing[post.id], approve: true })
+                          }
+                          className="btn btn-success text-sm"
+                        >
+                          保存して承認
+                        </button>
+                        <button
+                          disabled={busy}
+                          onClick={() =>
+                            setEditing((prev) => {
+                              const next = { ...prev };
+                              delete next[post.id];
+                              return next;
+                            })
+                          }
+                          className="btn btn-secondary text-sm"
+                        >
+                          キャンセル
+                        </button>
+                      </>
+                    ) : (
+                      <>
+                        <button
+                          disabled={busy}
+                          onClick={() => handleAction(post.id, { action: "approve" })}
+                          className="btn btn-success text-sm"
+                        >
+                          承認
+                        </button>
+                        <button
+                          disabled={busy}
+                          onClick={() => setEditing((prev) => ({ ...prev, [post.id]: post.content }))}
+                          className="btn btn-secondary text-sm"
+                        >
+                          編集
+                        </button>
+                      </>
+                    )}
+                    <select
+                      value={rejectReasons[post.id] || ""}
+                      onChange={(e) => setRejectReasons((prev) => ({ ...prev, [post.id]: e.target.value }))}
+                      className="px-3 py-1 bg-white border border-gray-300 rounded text-sm"
+                    >
+                      <option value="">却下理由を選択</option>
+                      {reasons.map((reason) => (
+                        <option key={reason.code} value={reason.code}>
+                          {REVIEW_REASON_LABELS[reason.code] || reason.code}
+                        </option>
+                      ))}
+                    </select>
+                    <button
+                      disabled={busy || !rejectReasons[post.id]}
+                      onClick={() => handleAction(post.id, { action: "reject", reason: rejectReasons[post.id] })}
+                      className="btn btn-danger text-sm"
+                    >
+                      却下
+                    </button>
+                    <button
+                      disabled={busy}
+                      onClick={() =>
+                        handleAction(post.id, {
+                          action: "regenerate",
+                          reason: rejectReasons[post.id] || undefined,
+                        })
+                      }
+                      className="btn btn-primary text-sm"
+                    >
+                      {busy ? "処理中..." : "再生成"}
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
 // Triggers Tab Component
 function TriggersTab({
   cronConfig,
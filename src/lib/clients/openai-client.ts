@@ -1,4 +1,5 @@
 import OpenAI from "openai";
+import { getEmojiRange, getLengthRange } from "@/lib/utils/text-features";
 
 // Lazy-load OpenAI client to avoid build-time errors
 let openaiInstance: OpenAI | null = null;
@@ -80,11 +81,24 @@ export async function generatePost(params: {
   format: string;
   hookType: string;
   topic: string;
+  lengthBucket?: string;
+  emojiDensity?: string;
   recentPosts: string[]; // For avoiding repetition
 }): Promise<GeneratedPost> {
   const maxLength = params.platform === "x" ? 280 : 500;
   const platformName = params.platform === "x" ? "X（Twitter）" : "Threads";
 
+  // Style constraints from the selected arm
+  const lengthRange = params.lengthBucket
+    ? getLengthRange(params.lengthBucket, params.platform)
+    : undefined;
+  const emojiRange = params.emojiDensity ? getEmojiRange(params.emojiDensity) : undefined;
+  const emojiRule = !emojiRange
+    ? "絵文字は控えめに（0-2個程度）"
+    : emojiRange.max === 0
+      ? "絵文字は使わない"
+      : `絵文字はちょうど${emojiRange.min}〜${emojiRange.max}個`;
+
   const openai = getOpenAI();
   const response = await Promise.race([
     openai.chat.completions.create({
@@ -103,7 +117,7 @@ export async function generatePost(params: {
 3. 過度な煽りや誇張は禁止
 4. 特定の会社や個人の誹謗中傷禁止
 5. 有益な情報を提供する
-6. 絵文字は控えめに（0-2個程度）
+6. ${emojiRule}
 7. リンクは含めない
 
 避けるべき表現:
@@ -121,7 +135,7 @@ ${params.recentPosts.slice(0, 5).join("\n---\n")}
         content: `以下の条件で投稿を作成してください:
 - フォーマット: ${params.format}
 - フック: ${params.hookType}
-- トピック: ${params.topic}
+- トピック: ${params.topic}${lengthRange ? `\n- 文字数: ${lengthRange.min}〜${lengthRange.max}文字` : ""}
 
 投稿本文のみを出力してください（説明不要）。`,
       },
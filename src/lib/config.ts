@@ -11,9 +11,85 @@ export const config = {
 
   // Safety thresholds
   duplicateSimThreshold: parseFloat(process.env.DUPLICATE_SIM_THRESHOLD || "0.88"),
+  // Days of published and scheduled posts new content is checked against
+  duplicateWindowDays: parseInt(process.env.DUPLICATE_WINDOW_DAYS || "30", 10),
+  // LSH bands the MinHash signature is split into (more bands: more candidates, lower recall threshold)
+  lshBands: parseInt(process.env.LSH_BANDS || "16", 10),
+  // Treat posts differing only in their numbers as duplicates (e.g. "月5万円" vs "月10万円")
+  duplicateMaskNumbers: process.env.DUPLICATE_MASK_NUMBERS === "true",
+  // Share of character 3-grams shared with a harvested post at which a draft counts as copied
+  plagiarismThreshold: parseFloat(process.env.PLAGIARISM_THRESHOLD || "0.6"),
+  // Days of harvested posts drafts are checked against
+  plagiarismWindowDays: parseInt(process.env.PLAGIARISM_WINDOW_DAYS || "90", 10),
   ragebaitScoreThreshold: parseFloat(process.env.RAGEBAIT_SCORE_THRESHOLD || "0.75"),
+  // Hold posts that only passed the local safety rules (LLM check failed) until an LLM check succeeds
+  safetyFailClosed: process.env.SAFETY_FAIL_CLOSED === "true",
+  // Compliance rule packs checked on every draft (comma-separated)
+  compliancePacks: (process.env.COMPLIANCE_PACKS ?? "jp-recruitment")
+    .split(",")
+    .map((name) => name.trim())
+    .filter(Boolean),
   maxConsecutiveFails: parseInt(process.env.MAX_CONSECUTIVE_FAILS || "5", 10),
 
+  // Bandit
+  // Max pseudo-observations a parent level (format×hook, format, hook) lends to its children
+  banditPriorMaxStrength: parseFloat(process.env.BANDIT_PRIOR_MAX_STRENGTH || "10"),
+  // Arm selection strategy per platform: thompson (Beta arms), lin_ucb, lin_thompson
+  banditStrategyX: process.env.BANDIT_STRATEGY_X || "thompson",
+  banditStrategyThreads: process.env.BANDIT_STRATEGY_THREADS || "thompson",
+  linUcbAlpha: parseFloat(process.env.LIN_UCB_ALPHA || "1.0"),
+  linThompsonScale: parseFloat(process.env.LIN_THOMPSON_SCALE || "0.5"),
+  // Posterior decay: cumulative (never forget), discounted (exponential by age), sliding_window
+  banditDecayMode: process.env.BANDIT_DECAY_MODE || "cumulative",
+  banditDecayHalfLifeDays: parseFloat(process.env.BANDIT_DECAY_HALF_LIFE_DAYS || "30"),
+  banditWindowDays: parseInt(process.env.BANDIT_WINDOW_DAYS || "28", 10),
+  // Early reward: provisional credit from 6h metrics, reconciled when 24h metrics land
+  earlyRewardDisabled: process.env.EARLY_REWARD_DISABLED === "true",
+  earlyRewardMaxWeight: parseFloat(process.env.EARLY_REWARD_MAX_WEIGHT || "0.5"),
+  earlyRewardMinSamples: parseInt(process.env.EARLY_REWARD_MIN_SAMPLES || "20", 10),
+  // Failures a reviewer's rejection adds to the draft's arm, scaled per reason code (0 disables)
+  reviewRejectPenalty: parseFloat(process.env.REVIEW_REJECT_PENALTY || "1"),
+  // Regenerations when a post misses its arm's length/emoji bucket before re-labelling it
+  styleMaxRetries: parseInt(process.env.STYLE_MAX_RETRIES || "1", 10),
+  // Automatic learning-state snapshots kept (manual snapshots are never pruned)
+  banditSnapshotRetention: parseInt(process.env.BANDIT_SNAPSHOT_RETENTION || "50", 10),
+  // Every Nth snapshot stores arm priors and template weights in full, the rest only changed rows
+  banditSnapshotFullEvery: parseInt(process.env.BANDIT_SNAPSHOT_FULL_EVERY || "10", 10),
+
+  // Exploration budget: share of selections reserved for arms (format × hook × topic)
+  // with fewer than EXPLORATION_MIN_PULLS pulls
+  explorationShare: parseFloat(process.env.EXPLORATION_SHARE || "0.1"),
+  explorationMinPulls: parseInt(process.env.EXPLORATION_MIN_PULLS || "3", 10),
+  // Arm retirement: after ARM_RETIRE_MIN_PULLS pulls, an arm whose upper credible bound
+  // (mean + ARM_RETIRE_Z × sd) is below the best arm's lower bound is retired (0 disables).
+  // Retired arms come back after ARM_RETEST_DAYS and are judged again after ARM_RETEST_PULLS pulls.
+  armRetireMinPulls: parseInt(process.env.ARM_RETIRE_MIN_PULLS || "10", 10),
+  armRetireZ: parseFloat(process.env.ARM_RETIRE_Z || "1.96"),
+  armRetestDays: parseInt(process.env.ARM_RETEST_DAYS || "14", 10),
+  armRetestPulls: parseInt(process.env.ARM_RETEST_PULLS || "3", 10),
+
+  // Posting window (quiet hours): timezone the window is read in, hours of the day posts may
+  // go out ("6-23" = 06:00-23:59, comma-separated ranges allowed; default all day, so quiet
+  // hours are opt-in) and all-day blackout dates.
+  // Per-platform / per-account overrides are set via /api/admin/posting-windows.
+  postingTimezone: process.env.POSTING_TIMEZONE || "Asia/Tokyo",
+  postingAllowedHours: process.env.POSTING_ALLOWED_HOURS || "0-23",
+  postingBlackoutDates: (process.env.POSTING_BLACKOUT_DATES || "")
+    .split(",")
+    .map((d) => d.trim())
+    .filter(Boolean),
+
+  // Per-account learning: pseudo-observations a new account borrows from the pooled
+  // posterior, and the post count at which an account's own lift on template weights counts half
+  accountPooledPriorStrength: parseFloat(process.env.ACCOUNT_POOLED_PRIOR_STRENGTH || "10"),
+  accountWeightShrinkage: parseInt(process.env.ACCOUNT_WEIGHT_SHRINKAGE || "10", 10),
+
+  // Topic discovery (buzz posts looked back over, minimum supporting posts per proposal,
+  // and the share of posts above which a phrase is treated as domain-wide rather than a topic)
+  topicDiscoveryDays: parseInt(process.env.TOPIC_DISCOVERY_DAYS || "14", 10),
+  topicMinExamples: parseInt(process.env.TOPIC_MIN_EXAMPLES || "5", 10),
+  topicMaxDocumentShare: parseFloat(process.env.TOPIC_MAX_DOCUMENT_SHARE || "0.3"),
+
   // Buzz harvest queries
   buzzHarvestQueries: (() => {
     try {
@@ -33,7 +109,7 @@ export const config = {
     }
   })(),
 
-  // Topics for content generation
+  // Seed topics for content generation (the topic catalog starts from these)
   topics: [
     "単価交渉",
     "燃費改善",
@@ -85,6 +161,12 @@ export const config = {
     "季節波動",
   ] as const,
 
+  // Length buckets (share of the platform's character limit)
+  lengthBuckets: ["short", "medium", "long"] as const,
+
+  // Emoji density buckets
+  emojiDensities: ["none", "low", "medium", "high"] as const,
+
   // Time buckets
   timeBuckets: [
     "early_morning", // 5-7
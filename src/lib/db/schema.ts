@@ -10,6 +10,7 @@ import {
   varchar,
   index,
   uniqueIndex,
+  unique,
 } from "drizzle-orm/pg-core";
 
 // ============================================================
@@ -38,6 +39,8 @@ export const externalPosts = pgTable(
     isJapanese: boolean("is_japanese").default(true),
     hasKeywordMatch: boolean("has_keyword_match").default(true),
     isSpamSuspect: boolean("is_spam_suspect").default(false),
+    // Distinct character 3-grams, null until indexed for the plagiarism check
+    ngramCount: integer("ngram_count"),
   },
   (table) => [
     index("external_posts_buzz_score_idx").on(table.buzzScore),
@@ -74,6 +77,29 @@ export const patterns = pgTable(
   ]
 );
 
+// ============================================================
+// Topics - Topic catalog (seeded from config, extended by topic mining)
+// ============================================================
+export const topics = pgTable(
+  "topics",
+  {
+    id: serial("id").primaryKey(),
+    name: varchar("name", { length: 64 }).notNull().unique(),
+    status: varchar("status", { length: 16 }).notNull().default("proposed"), // active, proposed, retired
+    source: varchar("source", { length: 16 }).notNull().default("mined"), // seed, mined, manual
+    // Phrases clustered into this topic
+    keywords: jsonb("keywords").$type<string[]>().default([]),
+    // Supporting evidence from the latest mining run
+    exampleCount: integer("example_count").default(0),
+    avgBuzzScore: real("avg_buzz_score").default(0),
+    examplePostIds: jsonb("example_post_ids").$type<number[]>().default([]),
+    lastSeenAt: timestamp("last_seen_at"),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+    updatedAt: timestamp("updated_at").notNull().defaultNow(),
+  },
+  (table) => [index("topics_status_idx").on(table.status)]
+);
+
 // ============================================================
 // Template Weights - Weekly optimized template distribution
 // ============================================================
@@ -86,6 +112,11 @@ export const templateWeights = pgTable(
     format: varchar("format", { length: 32 }),
     hookType: varchar("hook_type", { length: 32 }),
     payloadType: varchar("payload_type", { length: 32 }),
+    lengthBucket: varchar("length_bucket", { length: 16 }),
+    emojiDensity: varchar("emoji_density", { length: 16 }),
+    accountId: integer("account_id").references(() => accounts.id, {
+      onDelete: "cascade",
+    }), // null: shared by all accounts
     weight: real("weight").notNull().default(1.0),
     sampleCount: integer("sample_count").default(0),
     avgBuzzScore: real("avg_buzz_score").default(0),
@@ -98,7 +129,10 @@ export const templateWeights = pgTable(
       table.platform,
       table.format,
       table.hookType,
-      table.payloadType
+      table.payloadType,
+      table.lengthBucket,
+      table.emojiDensity,
+      table.accountId
     ),
   ]
 );
@@ -106,35 +140,80 @@ export const templateWeights = pgTable(
 // ============================================================
 // Arm Priors - Bandit learning priors from external patterns
 // ============================================================
-export const armPriors = pgTable("arm_priors", {
-  id: serial("id").primaryKey(),
-  armId: varchar("arm_id", { length: 128 }).notNull().unique(),
-  platform: varchar("platform", { length: 16 }).notNull(),
-  format: varchar("format", { length: 32 }),
-  hookType: varchar("hook_type", { length: 32 }),
-  topic: varchar("topic", { length: 64 }),
-  lengthBucket: varchar("length_bucket", { length: 16 }),
-  timeBucket: varchar("time_bucket", { length: 16 }),
-  dayOfWeek: integer("day_of_week"),
-  emojiDensity: varchar("emoji_density", { length: 16 }),
-  // Thompson Sampling parameters
-  alpha: real("alpha").notNull().default(1.0),
-  beta: real("beta").notNull().default(1.0),
-  // UCB parameters
-  totalReward: real("total_reward").default(0),
-  pullCount: integer("pull_count").default(0),
-  source: varchar("source", { length: 32 }).default("external_patterns"),
-  updatedAt: timestamp("updated_at").notNull().defaultNow(),
-});
+export const armPriors = pgTable(
+  "arm_priors",
+  {
+    id: serial("id").primaryKey(),
+    armId: varchar("arm_id", { length: 128 }).notNull(),
+    platform: varchar("platform", { length: 16 }).notNull(),
+    accountId: integer("account_id").references(() => accounts.id, {
+      onDelete: "cascade",
+    }), // null: pooled across accounts
+    format: varchar("format", { length: 32 }),
+    hookType: varchar("hook_type", { length: 32 }),
+    topic: varchar("topic", { length: 64 }),
+    lengthBucket: varchar("length_bucket", { length: 16 }),
+    timeBucket: varchar("time_bucket", { length: 16 }),
+    dayOfWeek: integer("day_of_week"),
+    emojiDensity: varchar("emoji_density", { length: 16 }),
+    // Thompson Sampling parameters
+    alpha: real("alpha").notNull().default(1.0),
+    beta: real("beta").notNull().default(1.0),
+    // UCB parameters
+    totalReward: real("total_reward").default(0),
+    pullCount: integer("pull_count").default(0),
+    source: varchar("source", { length: 32 }).default("external_patterns"),
+    updatedAt: timestamp("updated_at").notNull().defaultNow(),
+  },
+  (table) => [
+    unique("arm_priors_arm_id_account_id_unique")
+      .on(table.armId, table.accountId)
+      .nullsNotDistinct(),
+  ]
+);
+
+// ============================================================
+// Selection Logs - Logged bandit decisions for offline policy evaluation
+// ============================================================
+export const selectionLogs = pgTable(
+  "selection_logs",
+  {
+    id: serial("id").primaryKey(),
+    platform: varchar("platform", { length: 16 }).notNull(),
+    strategy: varchar("strategy", { length: 16 }).notNull(), // thompson, ucb, lin_ucb, lin_thompson
+    accountId: integer("account_id").references(() => accounts.id, {
+      onDelete: "set null",
+    }),
+    armId: varchar("arm_id", { length: 128 }).notNull(),
+    format: varchar("format", { length: 32 }),
+    hookType: varchar("hook_type", { length: 32 }),
+    topic: varchar("topic", { length: 64 }),
+    // Evaluated candidates with the score each received
+    candidates: jsonb("candidates")
+      .$type<Array<{ format: string; hookType: string; topic: string; score: number }>>()
+      .notNull(),
+    propensity: real("propensity").notNull(), // P(chosen) including candidate-set sampling
+    inclusionProbability: real("inclusion_probability").notNull(), // P(chosen was evaluated)
+    explored: boolean("explored").notNull().default(false), // Chosen from the exploration budget
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => [index("selection_logs_created_at_idx").on(table.createdAt)]
+);
 
 // ============================================================
 // Scheduled Posts - Posts waiting to be published
 // ============================================================
+// Statuses that still hold their slot: queued for publishing or waiting for a reviewer
+export const queuedPostStatuses = ["pending", "awaiting_review"];
+
 export const scheduledPosts = pgTable(
   "scheduled_posts",
   {
     id: serial("id").primaryKey(),
     platform: varchar("platform", { length: 16 }).notNull(),
+    accountId: integer("account_id").references(() => accounts.id, {
+      onDelete: "set null",
+    }), // null: default account
     content: text("content").notNull(),
     scheduledFor: timestamp("scheduled_for").notNull(),
     createdAt: timestamp("created_at").notNull().defaultNow(),
@@ -143,12 +222,42 @@ export const scheduledPosts = pgTable(
     format: varchar("format", { length: 32 }),
     hookType: varchar("hook_type", { length: 32 }),
     topic: varchar("topic", { length: 64 }),
+    // Time context the arm was selected for (the slot, not the generation time)
+    timeBucket: varchar("time_bucket", { length: 16 }),
+    dayOfWeek: integer("day_of_week"),
+    // Style the content actually has (re-labelled if generation missed the arm's buckets)
+    lengthBucket: varchar("length_bucket", { length: 16 }),
+    emojiDensity: varchar("emoji_density", { length: 16 }),
+    selectionLogId: integer("selection_log_id").references(() => selectionLogs.id),
     // Status
-    status: varchar("status", { length: 16 }).notNull().default("pending"), // pending, published, failed, cancelled
+    status: varchar("status", { length: 16 }).notNull().default("pending"), // pending, awaiting_review, published, failed, cancelled, rejected
     retryCount: integer("retry_count").default(0),
     // Similarity check
     contentHash: varchar("content_hash", { length: 64 }),
+    minhashSignature: jsonb("minhash_signature").$type<number[]>(),
     similarityChecked: boolean("similarity_checked").default(false),
+    // Passed only the local safety rules; published once an LLM safety check succeeds
+    safetyPending: boolean("safety_pending").notNull().default(false),
+    // Non-blocking compliance findings (see modules/compliance), with suggested rewordings
+    complianceFindings: jsonb("compliance_findings")
+      .$type<
+        Array<{
+          ruleId: string;
+          category: string;
+          severity: string;
+          description: string;
+          reference: string;
+          match: string;
+          suggestion: string;
+          rewrite?: string;
+        }>
+      >()
+      .default([]),
+    // Review (see modules/review-queue): reject reason code, reviewer note, bandit penalty applied
+    reviewReason: varchar("review_reason", { length: 32 }),
+    reviewNote: text("review_note"),
+    reviewPenalty: real("review_penalty"),
+    reviewedAt: timestamp("reviewed_at"),
   },
   (table) => [
     index("scheduled_posts_status_idx").on(table.status),
@@ -167,6 +276,9 @@ export const publishedPosts = pgTable(
       () => scheduledPosts.id
     ),
     platform: varchar("platform", { length: 16 }).notNull(),
+    accountId: integer("account_id").references(() => accounts.id, {
+      onDelete: "set null",
+    }), // null: default account
     externalId: varchar("external_id", { length: 64 }).notNull(),
     content: text("content").notNull(),
     publishedAt: timestamp("published_at").notNull().defaultNow(),
@@ -189,6 +301,48 @@ export const publishedPosts = pgTable(
   ]
 );
 
+// ============================================================
+// External Post N-grams - Inverted index of external posts for the plagiarism check
+// ============================================================
+export const externalPostNgrams = pgTable(
+  "external_post_ngrams",
+  {
+    id: serial("id").primaryKey(),
+    externalPostId: integer("external_post_id")
+      .references(() => externalPosts.id, { onDelete: "cascade" })
+      .notNull(),
+    ngram: varchar("ngram", { length: 16 }).notNull(), // character 3-gram after normalization
+    collectedAt: timestamp("collected_at").notNull(), // the post's, for the plagiarism window
+  },
+  (table) => [
+    index("external_post_ngrams_ngram_idx").on(table.ngram, table.collectedAt),
+    index("external_post_ngrams_post_idx").on(table.externalPostId),
+    index("external_post_ngrams_collected_at_idx").on(table.collectedAt),
+  ]
+);
+
+// ============================================================
+// MinHash Bands - LSH index over published and scheduled posts
+// ============================================================
+export const minhashBands = pgTable(
+  "minhash_bands",
+  {
+    id: serial("id").primaryKey(),
+    postType: varchar("post_type", { length: 16 }).notNull(), // published, scheduled
+    postId: integer("post_id").notNull(),
+    platform: varchar("platform", { length: 16 }).notNull(),
+    band: integer("band").notNull(),
+    bucket: varchar("bucket", { length: 32 }).notNull(), // hash of the band's signature rows
+    postedAt: timestamp("posted_at").notNull(), // published or scheduled time
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => [
+    index("minhash_bands_bucket_idx").on(table.band, table.bucket),
+    index("minhash_bands_post_idx").on(table.postType, table.postId),
+    index("minhash_bands_posted_at_idx").on(table.postedAt),
+  ]
+);
+
 // ============================================================
 // Metrics - Collected performance metrics
 // ============================================================
@@ -215,6 +369,7 @@ export const metrics = pgTable(
     threadsQuotes: integer("threads_quotes"),
     // Calculated reward
     reward: real("reward"),
+    rewardDefinition: varchar("reward_definition", { length: 96 }), // name:vN used for reward
   },
   (table) => [
     index("metrics_published_post_idx").on(table.publishedPostId),
@@ -222,6 +377,65 @@ export const metrics = pgTable(
   ]
 );
 
+// ============================================================
+// Reward Definitions - Named, versioned reward formulas
+// ============================================================
+export const rewardDefinitions = pgTable(
+  "reward_definitions",
+  {
+    id: serial("id").primaryKey(),
+    name: varchar("name", { length: 64 }).notNull(), // impressions, engagement, follower_acquisition
+    version: integer("version").notNull().default(1),
+    description: text("description"),
+    // Per-platform signal weights, e.g. { x: { impressions: 1, likes: 0.5 }, threads: {...} }
+    weights: jsonb("weights").$type<Record<string, Record<string, number>>>().notNull(),
+    isActive: boolean("is_active").default(false),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("reward_definitions_name_version_idx").on(table.name, table.version),
+  ]
+);
+
+// ============================================================
+// Learning Ledger - Which post × metric window was credited to which learner
+// ============================================================
+export const learningLedger = pgTable(
+  "learning_ledger",
+  {
+    id: serial("id").primaryKey(),
+    publishedPostId: integer("published_post_id")
+      .references(() => publishedPosts.id)
+      .notNull(),
+    hoursAfterPublish: integer("hours_after_publish").notNull(), // metric window credited
+    target: varchar("target", { length: 16 }).notNull(), // arm, contextual
+    armId: varchar("arm_id", { length: 128 }).notNull(), // arm ID, or platform for contextual
+    accountId: integer("account_id").references(() => accounts.id, {
+      onDelete: "cascade",
+    }), // learner's account, null: pooled
+    rewardVersion: varchar("reward_version", { length: 64 }).notNull(),
+    reward: real("reward").notNull(),
+    normalizedReward: real("normalized_reward").notNull(),
+    weight: real("weight").notNull().default(1), // < 1 for provisional credits
+    reconciledAt: timestamp("reconciled_at"), // provisional credit replaced by the final one
+    creditedAt: timestamp("credited_at").notNull().defaultNow(),
+    updatedAt: timestamp("updated_at").notNull().defaultNow(),
+  },
+  (table) => [
+    index("learning_ledger_post_idx").on(table.publishedPostId),
+    // Pooled credits (account null) must be unique too
+    unique("learning_ledger_unique_idx")
+      .on(
+        table.publishedPostId,
+        table.hoursAfterPublish,
+        table.target,
+        table.armId,
+        table.accountId
+      )
+      .nullsNotDistinct(),
+  ]
+);
+
 // ============================================================
 // Learning State - Bandit algorithm state
 // ============================================================
@@ -232,6 +446,44 @@ export const learningState = pgTable("learning_state", {
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
 
+// ============================================================
+// Bandit Snapshots - Learning state captured for diffing and rollback
+// ============================================================
+export const banditSnapshots = pgTable(
+  "bandit_snapshots",
+  {
+    id: serial("id").primaryKey(),
+    name: varchar("name", { length: 128 }).notNull(),
+    reason: varchar("reason", { length: 32 }).notNull(), // manual, pre_learn, pre_synthesize, pre_rollback, account_deleted
+    // Rows as JSON (dates serialized as ISO strings)
+    armPriors: jsonb("arm_priors").$type<Array<Record<string, unknown>>>().notNull(),
+    templateWeights: jsonb("template_weights").$type<Array<Record<string, unknown>>>().notNull(),
+    rewardDefinitions: jsonb("reward_definitions")
+      .$type<Array<Record<string, unknown>>>()
+      .notNull(),
+    // learning_state rows of the learned models (contextual bandits, arm retirement)
+    learningState: jsonb("learning_state")
+      .$type<Array<Record<string, unknown>>>()
+      .notNull()
+      .default([]),
+    // Ledger entries of posts a later learning run can still credit (with their ids)
+    ledgerEntries: jsonb("ledger_entries")
+      .$type<Array<Record<string, unknown>>>()
+      .notNull()
+      .default([]),
+    armCount: integer("arm_count").notNull().default(0),
+    templateWeightCount: integer("template_weight_count").notNull().default(0),
+    // null: arm priors and template weights are complete. Otherwise they hold only the rows
+    // updated since the previous snapshot, on top of this full snapshot and the deltas between.
+    baseSnapshotId: integer("base_snapshot_id"),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => [
+    index("bandit_snapshots_created_at_idx").on(table.createdAt),
+    index("bandit_snapshots_base_idx").on(table.baseSnapshotId),
+  ]
+);
+
 // ============================================================
 // System Events - Audit log and monitoring
 // ============================================================
@@ -301,6 +553,8 @@ export const accounts = pgTable(
     isActive: boolean("is_active").default(true),
     maxPostsPerDay: integer("max_posts_per_day").default(40), // Platform-specific limits
     minGapMinutes: integer("min_gap_minutes").default(20),
+    // Start learning from the posterior pooled across accounts instead of from scratch
+    pooledPrior: boolean("pooled_prior").default(true),
     // Metadata
     createdAt: timestamp("created_at").notNull().defaultNow(),
     updatedAt: timestamp("updated_at").notNull().defaultNow(),
@@ -317,11 +571,17 @@ export type ExternalPost = typeof externalPosts.$inferSelect;
 export type NewExternalPost = typeof externalPosts.$inferInsert;
 export type Pattern = typeof patterns.$inferSelect;
 export type NewPattern = typeof patterns.$inferInsert;
+export type Topic = typeof topics.$inferSelect;
 export type TemplateWeight = typeof templateWeights.$inferSelect;
 export type ScheduledPost = typeof scheduledPosts.$inferSelect;
 export type NewScheduledPost = typeof scheduledPosts.$inferInsert;
 export type PublishedPost = typeof publishedPosts.$inferSelect;
 export type NewPublishedPost = typeof publishedPosts.$inferInsert;
+export type MinhashBand = typeof minhashBands.$inferSelect;
 export type Metric = typeof metrics.$inferSelect;
+export type RewardDefinitionRow = typeof rewardDefinitions.$inferSelect;
+export type SelectionLog = typeof selectionLogs.$inferSelect;
+export type LearningLedgerEntry = typeof learningLedger.$inferSelect;
+export type BanditSnapshot = typeof banditSnapshots.$inferSelect;
 export type SystemEvent = typeof systemEvents.$inferSelect;
 
@@ -0,0 +1,573 @@
+import { db } from "@/lib/db";
+import {
+  armPriors,
+  banditSnapshots,
+  learningLedger,
+  learningState,
+  publishedPosts,
+  rewardDefinitions,
+  systemEvents,
+  templateWeights,
+  type BanditSnapshot,
+} from "@/lib/db/schema";
+import { config } from "@/lib/config";
+import {
+  eq,
+  and,
+  ne,
+  asc,
+  desc,
+  gt,
+  gte,
+  lte,
+  inArray,
+  like,
+  notInArray,
+  or,
+} from "drizzle-orm";
+import { subDays } from "date-fns";
+import { LEARNING_LOOKBACK_DAYS } from "./learning-ledger";
+
+export type SnapshotReason =
+  | "manual"
+  | "pre_learn"
+  | "pre_synthesize"
+  | "pre_rollback"
+  | "account_deleted";
+
+type SerializedRow = Record<string, unknown>;
+
+interface LearningStateRows {
+  armPriors: SerializedRow[];
+  templateWeights: SerializedRow[];
+  rewardDefinitions: SerializedRow[];
+  learningState: SerializedRow[];
+}
+
+interface SnapshotSummary {
+  id: number;
+  name: string;
+  reason: string;
+  armCount: number;
+  templateWeightCount: number;
+  baseSnapshotId: number | null;
+  createdAt: Date;
+}
+
+interface RowChange {
+  key: string;
+  status: "added" | "removed" | "changed";
+  before?: SerializedRow;
+  after?: SerializedRow;
+  delta: number; // Change in posterior mean (arms) or weight (template weights)
+}
+
+export interface SnapshotDiff {
+  from: { id: number; name: string; createdAt: Date };
+  to: { id: number | null; name: string; createdAt: Date }; // id null: current state
+  arms: { added: number; removed: number; changed: number; changes: RowChange[] };
+  templateWeights: { added: number; removed: number; changed: number; changes: RowChange[] };
+  rewardDefinitions: { activeBefore: string | null; activeAfter: string | null };
+}
+
+// Rows inserted per statement on rollback
+const INSERT_CHUNK_SIZE = 500;
+
+// learning_state rows holding learned models, as opposed to settings
+const learnedStateKey = or(
+  like(learningState.key, "contextual_bandit:%"),
+  like(learningState.key, "arm_retirement:%")
+);
+
+/**
+ * Drop the serial id and round-trip through JSON so live rows and stored rows compare equal
+ */
+function serializeRows<T extends { id: number }>(rows: T[]): SerializedRow[] {
+  return rows.map((row) => {
+    const serialized = JSON.parse(JSON.stringify(row));
+    delete serialized.id;
+    return serialized;
+  });
+}
+
+/**
+ * Read the current learning state. With `since`, arm priors and template weights are limited
+ * to the rows updated from then on.
+ */
+async function captureState(since?: Date): Promise<LearningStateRows> {
+  const [arms, weights, definitions, states] = await Promise.all([
+    db.query.armPriors.findMany({
+      where: since ? gte(armPriors.updatedAt, since) : undefined,
+    }),
+    db.query.templateWeights.findMany({
+      where: since ? gte(templateWeights.updatedAt, since) : undefined,
+    }),
+    db.query.rewardDefinitions.findMany(),
+    db.query.learningState.findMany({ where: learnedStateKey }),
+  ]);
+
+  return {
+    armPriors: serializeRows(arms),
+    templateWeights: serializeRows(weights),
+    rewardDefinitions: serializeRows(definitions),
+    learningState: serializeRows(states),
+  };
+}
+
+/**
+ * Ledger entries a learning run can still add to or change: those of posts inside the
+ * learning lookback. Ids are kept so a rollback can put the entries back in place.
+ */
+async function captureLedgerEntries(): Promise<SerializedRow[]> {
+  const posts = await db.query.publishedPosts.findMany({
+    where: gte(publishedPosts.publishedAt, subDays(new Date(), LEARNING_LOOKBACK_DAYS)),
+    columns: { id: true },
+  });
+  if (posts.length === 0) return [];
+
+  const entries = await db.query.learningLedger.findMany({
+    where: inArray(
+      learningLedger.publishedPostId,
+      posts.map((p) => p.id)
+    ),
+  });
+  return JSON.parse(JSON.stringify(entries));
+}
+
+/**
+ * Take a named snapshot of arm priors, template weights, reward definitions, learned models
+ * and the ledger entries of recent posts.
+ * Arm priors and template weights are stored in full every `config.banditSnapshotFullEvery`
+ * snapshots; in between, only the rows updated since the previous snapshot are, on top of
+ * that full one (the base).
+ * Automatic snapshots beyond `config.banditSnapshotRetention` are pruned, oldest first.
+ */
+export async function createSnapshot(
+  reason: SnapshotReason,
+  name?: string
+): Promise<SnapshotSummary> {
+  // Stamped before reading, so anything credited while capturing counts as after the snapshot
+  const createdAt = new Date();
+
+  const previous = await db.query.banditSnapshots.findFirst({
+    columns: { id: true, reason: true, baseSnapshotId: true, createdAt: true },
+    orderBy: desc(banditSnapshots.createdAt),
+  });
+  const baseSnapshotId = previous ? (previous.baseSnapshotId ?? previous.id) : null;
+  const deltaCount = baseSnapshotId
+    ? await db.$count(banditSnapshots, eq(banditSnapshots.baseSnapshotId, baseSnapshotId))
+    : 0;
+  // A rollback puts rows back with their old updatedAt, and deleting an account removes its
+  // rows; no delta would see either, so the state after them is stored in full
+  const since =
+    previous &&
+    previous.reason !== "pre_rollback" &&
+    reason !== "account_deleted" &&
+    deltaCount + 1 < config.banditSnapshotFullEvery
+      ? previous.createdAt
+      : undefined;
+
+  const state = await captureState(since);
+  const ledgerEntries = await captureLedgerEntries();
+
+  const [snapshot] = await db
+    .insert(banditSnapshots)
+    .values({
+      name: name || `${reason}-${new Date().toISOString()}`,
+      reason,
+      ...state,
+      ledgerEntries,
+      armCount: since ? await db.$count(armPriors) : state.armPriors.length,
+      templateWeightCount: since ? await db.$count(templateWeights) : state.templateWeights.length,
+      baseSnapshotId: since ? baseSnapshotId : null,
+      createdAt,
+    })
+    .returning({
+      id: banditSnapshots.id,
+      name: banditSnapshots.name,
+      reason: banditSnapshots.reason,
+      armCount: banditSnapshots.armCount,
+      templateWeightCount: banditSnapshots.templateWeightCount,
+      baseSnapshotId: banditSnapshots.baseSnapshotId,
+      createdAt: banditSnapshots.createdAt,
+    });
+
+  if (reason !== "manual") {
+    const expired = await db.query.banditSnapshots.findMany({
+      where: ne(banditSnapshots.reason, "manual"),
+      columns: { id: true, baseSnapshotId: true },
+      orderBy: desc(banditSnapshots.createdAt),
+      offset: config.banditSnapshotRetention,
+    });
+    if (expired.length > 0) {
+      // A delta is read through its base and the deltas before it, so a base and its deltas
+      // only go together, once none of them is kept
+      const kept = await db.query.banditSnapshots.findMany({
+        where: notInArray(
+          banditSnapshots.id,
+          expired.map((s) => s.id)
+        ),
+        columns: { id: true, baseSnapshotId: true },
+      });
+      const keptBases = new Set(kept.map((s) => s.baseSnapshotId ?? s.id));
+      const removable = expired.filter((s) => !keptBases.has(s.baseSnapshotId ?? s.id));
+      if (removable.length > 0) {
+        await db.delete(banditSnapshots).where(
+          inArray(
+            banditSnapshots.id,
+            removable.map((s) => s.id)
+          )
+        );
+      }
+    }
+  }
+
+  await db.insert(systemEvents).values({
+    eventType: "bandit_snapshot_created",
+    severity: "info",
+    message: `Bandit snapshot created: ${snapshot.name} (${snapshot.armCount} arms, ${snapshot.templateWeightCount} template weights)`,
+    metadata: { snapshotId: snapshot.id, reason },
+  });
+
+  return snapshot;
+}
+
+/**
+ * The full arm priors and template weights a snapshot stands for: its own rows when it is
+ * full, otherwise its base's with the rows of each delta up to it laid over
+ */
+async function loadSnapshotState(snapshot: BanditSnapshot): Promise<LearningStateRows> {
+  const baseId = snapshot.baseSnapshotId;
+  if (baseId === null) return snapshot;
+
+  const chain = await db.query.banditSnapshots.findMany({
+    where: and(
+      or(eq(banditSnapshots.id, baseId), eq(banditSnapshots.baseSnapshotId, baseId)),
+      lte(banditSnapshots.createdAt, snapshot.createdAt)
+    ),
+    columns: { armPriors: true, templateWeights: true },
+    orderBy: asc(banditSnapshots.createdAt),
+  });
+
+  const arms = new Map<string, SerializedRow>();
+  const weights = new Map<string, SerializedRow>();
+  for (const link of chain) {
+    for (const row of link.armPriors) arms.set(armKey(row), row);
+    for (const row of link.templateWeights) weights.set(templateWeightKey(row), row);
+  }
+
+  return {
+    armPriors: [...arms.values()],
+    templateWeights: [...weights.values()],
+    rewardDefinitions: snapshot.rewardDefinitions,
+    learningState: snapshot.learningState,
+  };
+}
+
+/**
+ * List snapshots without their payload, newest first
+ */
+export async function listSnapshots(limit: number = 50): Promise<SnapshotSummary[]> {
+  return db.query.banditSnapshots.findMany({
+    columns: {
+      id: true,
+      name: true,
+      reason: true,
+      armCount: true,
+      templateWeightCount: true,
+      baseSnapshotId: true,
+      createdAt: true,
+    },
+    orderBy: desc(banditSnapshots.createdAt),
+    limit,
+  });
+}
+
+/**
+ * Posterior mean of a serialized arm row
+ */
+function armMean(row: SerializedRow): number {
+  const alpha = Number(row.alpha);
+  const beta = Number(row.beta);
+  return alpha + beta > 0 ? alpha / (alpha + beta) : 0;
+}
+
+// Account-scoped rows are keyed apart from the shared/pooled ones
+function armKey(row: SerializedRow): string {
+  return row.accountId ? `${row.armId}@${row.accountId}` : String(row.armId);
+}
+
+function templateWeightKey(row: SerializedRow): string {
+  return [
+    row.accountId ?? "*",
+    row.weekStart,
+    row.platform,
+    row.format ?? "*",
+    row.hookType ?? "*",
+    row.payloadType ?? "*",
+    row.lengthBucket ?? "*",
+    row.emojiDensity ?? "*",
+  ].join("|");
+}
+
+/**
+ * Compare two row sets by key, ignoring bookkeeping timestamps
+ */
+function diffRows(
+  before: SerializedRow[],
+  after: SerializedRow[],
+  getKey: (row: SerializedRow) => string,
+  getValue: (row: SerializedRow) => number,
+  limit: number
+): { added: number; removed: number; changed: number; changes: RowChange[] } {
+  const comparable = (row: SerializedRow) => JSON.stringify({ ...row, updatedAt: undefined });
+
+  const beforeByKey = new Map(before.map((row) => [getKey(row), row]));
+  const afterByKey = new Map(after.map((row) => [getKey(row), row]));
+  const changes: RowChange[] = [];
+
+  for (const [key, row] of afterByKey) {
+    const previous = beforeByKey.get(key);
+    if (!previous) {
+      changes.push({ key, status: "added", after: row, delta: getValue(row) });
+    } else if (comparable(previous) !== comparable(row)) {
+      changes.push({
+        key,
+        status: "changed",
+        before: previous,
+        after: row,
+        delta: getValue(row) - getValue(previous),
+      });
+    }
+  }
+  for (const [key, row] of beforeByKey) {
+    if (!afterByKey.has(key)) {
+      changes.push({ key, status: "removed", before: row, delta: -getValue(row) });
+    }
+  }
+
+  return {
+    added: changes.filter((c) => c.status === "added").length,
+    removed: changes.filter((c) => c.status === "removed").length,
+    changed: changes.filter((c) => c.status === "changed").length,
+    changes: changes.sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta)).slice(0, limit),
+  };
+}
+
+function getActiveRewardKey(definitions: SerializedRow[]): string | null {
+  const active = definitions.find((d) => d.isActive);
+  return active ? `${active.name}:v${active.version}` : null;
+}
+
+/**
+ * Diff two snapshots, or a snapshot against the current state when `toId` is omitted.
+ * Changes are sorted by the size of the shift and capped at `limit` per table.
+ */
+export async function diffSnapshots(
+  fromId: number,
+  toId?: number,
+  limit: number = 50
+): Promise<SnapshotDiff | null> {
+  const from = await db.query.banditSnapshots.findFirst({
+    where: eq(banditSnapshots.id, fromId),
+  });
+  if (!from) return null;
+  const before = await loadSnapshotState(from);
+
+  let to: { id: number | null; name: string; createdAt: Date } & LearningStateRows;
+  if (toId !== undefined) {
+    const snapshot = await db.query.banditSnapshots.findFirst({
+      where: eq(banditSnapshots.id, toId),
+    });
+    if (!snapshot) return null;
+    to = { ...snapshot, ...(await loadSnapshotState(snapshot)) };
+  } else {
+    to = { id: null, name: "current", createdAt: new Date(), ...(await captureState()) };
+  }
+
+  return {
+    from: { id: from.id, name: from.name, createdAt: from.createdAt },
+    to: { id: to.id, name: to.name, createdAt: to.createdAt },
+    arms: diffRows(before.armPriors, to.armPriors, armKey, armMean, limit),
+    templateWeights: diffRows(
+      before.templateWeights,
+      to.templateWeights,
+      templateWeightKey,
+      (row) => Number(row.weight),
+      limit
+    ),
+    rewardDefinitions: {
+      activeBefore: getActiveRewardKey(from.rewardDefinitions),
+      activeAfter: getActiveRewardKey(to.rewardDefinitions),
+    },
+  };
+}
+
+/**
+ * Restore arm priors, template weights, the active reward definition and the learned models
+ * from a snapshot. Ledger entries credited since are dropped and those changed since (reconciled
+ * or re-credited) are put back, so the next learning run credits those posts again.
+ * Rows of accounts deleted since are skipped (and counted).
+ * The current state is snapshotted first so the rollback itself can be undone.
+ */
+export async function rollbackToSnapshot(snapshotId: number): Promise<{
+  snapshotId: number;
+  backupSnapshotId: number;
+  armCount: number;
+  templateWeightCount: number;
+  skippedArmCount: number;
+  skippedTemplateWeightCount: number;
+  learningStateCount: number;
+  ledgerEntriesRemoved: number;
+  ledgerEntriesRestored: number;
+  activeRewardDefinition: string | null;
+} | null> {
+  const snapshot = await db.query.banditSnapshots.findFirst({
+    where: eq(banditSnapshots.id, snapshotId),
+  });
+  if (!snapshot) return null;
+
+  const backup = await createSnapshot("pre_rollback", `pre_rollback-to-${snapshot.id}`);
+
+  const state = await loadSnapshotState(snapshot);
+
+  // Account rows can only go back for accounts that still exist
+  const accountIds = new Set(
+    (await db.query.accounts.findMany({ columns: { id: true } })).map((a) => a.id)
+  );
+  const accountExists = (row: SerializedRow) =>
+    row.accountId === null || row.accountId === undefined || accountIds.has(Number(row.accountId));
+  const armRows = state.armPriors.filter(accountExists);
+  const weightRows = state.templateWeights.filter(accountExists);
+
+  const arms = armRows.map((row) => ({
+    ...row,
+    updatedAt: new Date(row.updatedAt as string),
+  })) as Array<typeof armPriors.$inferInsert>;
+  const weights = weightRows.map((row) => ({
+    ...row,
+    weekStart: new Date(row.weekStart as string),
+    updatedAt: new Date(row.updatedAt as string),
+  })) as Array<typeof templateWeights.$inferInsert>;
+  const states = snapshot.learningState.map((row) => ({
+    ...row,
+    updatedAt: new Date(row.updatedAt as string),
+  })) as Array<typeof learningState.$inferInsert>;
+
+  let ledgerEntriesRemoved = 0;
+  let ledgerEntriesRestored = 0;
+
+  await db.transaction(async (tx) => {
+    await tx.delete(armPriors);
+    for (let i = 0; i < arms.length; i += INSERT_CHUNK_SIZE) {
+      await tx.insert(armPriors).values(arms.slice(i, i + INSERT_CHUNK_SIZE));
+    }
+
+    await tx.delete(templateWeights);
+    for (let i = 0; i < weights.length; i += INSERT_CHUNK_SIZE) {
+      await tx.insert(templateWeights).values(weights.slice(i, i + INSERT_CHUNK_SIZE));
+    }
+
+    // Snapshots without learned models (taken before they were captured) leave them in place
+    if (states.length > 0) {
+      await tx.delete(learningState).where(learnedStateKey);
+      await tx.insert(learningState).values(states);
+    }
+
+    const removed = await tx
+      .delete(learningLedger)
+      .where(gt(learningLedger.creditedAt, snapshot.createdAt))
+      .returning({ id: learningLedger.id });
+    ledgerEntriesRemoved = removed.length;
+
+    // Entries still inside the lookback may have been reconciled or re-credited since
+    const current = new Map(
+      snapshot.ledgerEntries.length > 0
+        ? (
+            await tx.query.learningLedger.findMany({
+              where: inArray(
+                learningLedger.id,
+                snapshot.ledgerEntries.map((e) => Number(e.id))
+              ),
+            })
+          ).map((e) => [e.id, e])
+        : []
+    );
+    for (const entry of snapshot.ledgerEntries) {
+      const existing = current.get(Number(entry.id));
+      const reconciledAt = entry.reconciledAt ? new Date(entry.reconciledAt as string) : null;
+      if (
+        !existing ||
+        (existing.rewardVersion === entry.rewardVersion &&
+          existing.reward === entry.reward &&
+          existing.weight === entry.weight &&
+          existing.reconciledAt?.getTime() === reconciledAt?.getTime())
+      ) {
+        continue;
+      }
+
+      await tx
+        .update(learningLedger)
+        .set({
+          rewardVersion: String(entry.rewardVersion),
+          reward: Number(entry.reward),
+          normalizedReward: Number(entry.normalizedReward),
+          weight: Number(entry.weight),
+          reconciledAt,
+          updatedAt: new Date(),
+        })
+        .where(eq(learningLedger.id, existing.id));
+      ledgerEntriesRestored++;
+    }
+
+    // Reward definitions are only ever added, so restore the active flag
+    // (re-creating any definition the snapshot has that is missing now)
+    await tx.update(rewardDefinitions).set({ isActive: false });
+    for (const row of snapshot.rewardDefinitions) {
+      const name = String(row.name);
+      const version = Number(row.version);
+      const existing = await tx.query.rewardDefinitions.findFirst({
+        where: and(eq(rewardDefinitions.name, name), eq(rewardDefinitions.version, version)),
+      });
+
+      if (existing) {
+        if (row.isActive) {
+          await tx
+            .update(rewardDefinitions)
+            .set({ isActive: true })
+            .where(eq(rewardDefinitions.id, existing.id));
+        }
+      } else {
+        await tx.insert(rewardDefinitions).values({
+          name,
+          version,
+          description: (row.description as string | null) ?? null,
+          weights: row.weights as typeof rewardDefinitions.$inferInsert["weights"],
+          isActive: Boolean(row.isActive),
+        });
+      }
+    }
+  });
+
+  const result = {
+    snapshotId: snapshot.id,
+    backupSnapshotId: backup.id,
+    armCount: arms.length,
+    templateWeightCount: weights.length,
+    skippedArmCount: state.armPriors.length - arms.length,
+    skippedTemplateWeightCount: state.templateWeights.length - weights.length,
+    learningStateCount: states.length,
+    ledgerEntriesRemoved,
+    ledgerEntriesRestored,
+    activeRewardDefinition: getActiveRewardKey(snapshot.rewardDefinitions),
+  };
+
+  await db.insert(systemEvents).values({
+    eventType: "bandit_rollback",
+    severity: "warn",
+    message: `Bandit state rolled back to snapshot ${snapshot.name} (#${snapshot.id})`,
+    metadata: result,
+  });
+
+  return result;
+}
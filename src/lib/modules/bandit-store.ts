@@ -0,0 +1,393 @@
+import { db } from "@/lib/db";
+import { accounts, armPriors, learningState, selectionLogs } from "@/lib/db/schema";
+import { eq, and, inArray, isNull } from "drizzle-orm";
+import { getCurrentWeights } from "./template-synthesizer";
+import { getActiveTopics } from "./topic-miner";
+import { config } from "@/lib/config";
+import {
+  createContextualModel,
+  loadContextualModel,
+  type ContextualModel,
+} from "./contextual-bandit";
+
+/**
+ * Stored posterior of one arm (raw, before decay)
+ */
+export interface ArmRecord {
+  armId: string;
+  alpha: number;
+  beta: number;
+  totalReward: number;
+  pullCount: number;
+  updatedAt: Date;
+}
+
+export interface TemplateWeightSnapshot {
+  formats: Record<string, number>;
+  hookTypes: Record<string, number>;
+  lengthBuckets?: Record<string, number>;
+  emojiDensities?: Record<string, number>;
+}
+
+/**
+ * Retirement of one candidate arm (format × hook × topic)
+ */
+export interface RetiredArm {
+  status: "retired" | "retesting";
+  retiredAt: string;
+  retestAt: string; // When the arm returns to the pool for re-testing
+  pullsAtRetest?: number; // Pull count when re-testing began
+  mean: number;
+  bestMean: number;
+  pullCount: number;
+}
+
+export interface RetirementDecision {
+  armId: string;
+  action: "retire" | "retest" | "reinstate";
+  mean: number;
+  bestMean: number;
+  pullCount: number;
+  decidedAt: string;
+}
+
+export interface ArmRetirementState {
+  arms: Record<string, RetiredArm>; // Keyed by candidate arm ID (platform:format:hook:topic:*:*:*:*)
+  decisions: RetirementDecision[]; // Most recent first
+  evaluatedAt?: string;
+}
+
+type SelectionLogEntry = Omit<typeof selectionLogs.$inferInsert, "id" | "createdAt">;
+
+/**
+ * Everything selectArm/updateArm read or write.
+ * The default store is Postgres; simulations swap in an in-memory one.
+ */
+export interface BanditStore {
+  getArm(armId: string): Promise<ArmRecord | undefined>;
+  getArms(armIds: string[]): Promise<Map<string, ArmRecord>>; // Missing arms are left out
+  saveArm(platform: string, arm: ArmRecord): Promise<void>;
+  getWeights(platform: "x" | "threads"): Promise<TemplateWeightSnapshot>;
+  getTopics(): Promise<string[]>; // Active topics to select from
+  loadContextualModel(platform: "x" | "threads"): Promise<ContextualModel>;
+  getRetirementState(platform: "x" | "threads"): Promise<ArmRetirementState>;
+  saveRetirementState(platform: "x" | "threads", state: ArmRetirementState): Promise<void>;
+  logSelection(entry: SelectionLogEntry): Promise<number | undefined>;
+}
+
+function createRetirementState(): ArmRetirementState {
+  return { arms: {}, decisions: [] };
+}
+
+/**
+ * Parse arm components from armId into arm_priors columns
+ */
+export function parseArmId(armId: string) {
+  const parts = armId.split(":");
+  return {
+    format: parts[1] !== "*" ? parts[1] : null,
+    hookType: parts[2] !== "*" ? parts[2] : null,
+    topic: parts[3] !== "*" ? parts[3] : null,
+    lengthBucket: parts[4] !== "*" ? parts[4] : null,
+    timeBucket: parts[5] !== "*" ? parts[5] : null,
+    dayOfWeek: parts[6] !== "*" ? parseInt(parts[6]) : null,
+    emojiDensity: parts[7] !== "*" ? parts[7] : null,
+  };
+}
+
+function toArmRecord(row: typeof armPriors.$inferSelect): ArmRecord {
+  return {
+    armId: row.armId,
+    alpha: row.alpha,
+    beta: row.beta,
+    totalReward: row.totalReward || 0,
+    pullCount: row.pullCount || 0,
+    updatedAt: row.updatedAt,
+  };
+}
+
+/**
+ * Scope arm_priors rows to an account's own arms, or to the pooled arms without an account
+ */
+export function armScope(accountId?: number) {
+  return accountId ? eq(armPriors.accountId, accountId) : isNull(armPriors.accountId);
+}
+
+/**
+ * Starting point of an account's arm: at most `config.accountPooledPriorStrength`
+ * pseudo-observations borrowed from the pooled arm, without its pulls
+ */
+function toPooledPrior(pooled: ArmRecord): ArmRecord {
+  const successes = Math.max(0, pooled.alpha - 1);
+  const failures = Math.max(0, pooled.beta - 1);
+  const evidence = successes + failures;
+  const factor = evidence > 0 ? Math.min(1, config.accountPooledPriorStrength / evidence) : 0;
+
+  return {
+    armId: pooled.armId,
+    alpha: 1 + successes * factor,
+    beta: 1 + failures * factor,
+    totalReward: 0,
+    pullCount: 0,
+    updatedAt: pooled.updatedAt,
+  };
+}
+
+/**
+ * Postgres-backed store (arm_priors, template_weights, learning_state, selection_logs).
+ * Without an account it works on the pooled state every post contributes to; with one, on
+ * that account's own state. With `pooledPrior`, arms and the contextual model an account has
+ * not learned yet start from the pooled ones.
+ */
+export function createDbBanditStore(
+  accountId?: number,
+  options: { pooledPrior?: boolean } = {}
+): BanditStore {
+  const pooledPrior = accountId !== undefined && (options.pooledPrior ?? true);
+  const stateKey = (name: string, platform: string) =>
+    accountId ? `${name}:${platform}:${accountId}` : `${name}:${platform}`;
+
+  const getArms = async (armIds: string[]): Promise<Map<string, ArmRecord>> => {
+    const arms = new Map<string, ArmRecord>();
+    if (armIds.length === 0) return arms;
+
+    const rows = await db.query.armPriors.findMany({
+      where: and(inArray(armPriors.armId, armIds), armScope(accountId)),
+    });
+    for (const row of rows) arms.set(row.armId, toArmRecord(row));
+
+    const unlearned = armIds.filter((armId) => !arms.has(armId));
+    if (pooledPrior && unlearned.length > 0) {
+      const pooled = await db.query.armPriors.findMany({
+        where: and(inArray(armPriors.armId, unlearned), armScope()),
+      });
+      for (const row of pooled) arms.set(row.armId, toPooledPrior(toArmRecord(row)));
+    }
+
+    return arms;
+  };
+
+  return {
+    async getArm(armId) {
+      return (await getArms([armId])).get(armId);
+    },
+
+    getArms,
+
+    async saveArm(platform, arm) {
+      const existing = await db.query.armPriors.findFirst({
+        where: and(eq(armPriors.armId, arm.armId), armScope(accountId)),
+      });
+
+      if (existing) {
+        await db
+          .update(armPriors)
+          .set({
+            alpha: arm.alpha,
+            beta: arm.beta,
+            totalReward: arm.totalReward,
+            pullCount: arm.pullCount,
+            updatedAt: arm.updatedAt,
+          })
+          .where(eq(armPriors.id, existing.id));
+      } else {
+        await db.insert(armPriors).values({
+          armId: arm.armId,
+          platform,
+          accountId: accountId ?? null,
+          ...parseArmId(arm.armId),
+          alpha: arm.alpha,
+          beta: arm.beta,
+          totalReward: arm.totalReward,
+          pullCount: arm.pullCount,
+          source: "self_learning",
+          updatedAt: arm.updatedAt,
+        });
+      }
+    },
+
+    getWeights(platform) {
+      return getCurrentWeights(platform, accountId);
+    },
+
+    getTopics: getActiveTopics,
+
+    async loadContextualModel(platform) {
+      const model = await loadContextualModel(platform, accountId);
+      if (pooledPrior && model.updates === 0) return loadContextualModel(platform);
+      return model;
+    },
+
+    async getRetirementState(platform) {
+      const state = await db.query.learningState.findFirst({
+        where: eq(learningState.key, stateKey("arm_retirement", platform)),
+      });
+      return (state?.value as ArmRetirementState | undefined) || createRetirementState();
+    },
+
+    async saveRetirementState(platform, state) {
+      const key = stateKey("arm_retirement", platform);
+      const existing = await db.query.learningState.findFirst({
+        where: eq(learningState.key, key),
+      });
+
+      if (existing) {
+        await db
+          .update(learningState)
+          .set({ value: state, updatedAt: new Date() })
+          .where(eq(learningState.id, existing.id));
+      } else {
+        await db.insert(learningState).values({ key, value: state });
+      }
+    },
+
+    async logSelection(entry) {
+      const [log] = await db
+        .insert(selectionLogs)
+        .values({ ...entry, accountId: accountId ?? null })
+        .returning({ id: selectionLogs.id });
+      return log?.id;
+    },
+  };
+}
+
+/**
+ * Store for the pooled state (and for everything when no accounts are configured)
+ */
+export const dbBanditStore: BanditStore = createDbBanditStore();
+
+/**
+ * Store for an account's own state, honouring its pooled-prior setting.
+ * No account means the pooled store.
+ */
+export async function loadAccountBanditStore(accountId?: number): Promise<BanditStore> {
+  if (!accountId) return dbBanditStore;
+
+  const account = await db.query.accounts.findFirst({
+    where: eq(accounts.id, accountId),
+    columns: { pooledPrior: true },
+  });
+  if (!account) {
+    throw new Error(`Account not found: ${accountId}`);
+  }
+
+  return createDbBanditStore(accountId, { pooledPrior: account.pooledPrior ?? true });
+}
+
+/**
+ * Read-through cache over another store, meant to live for one cron run.
+ * Arms (including known-missing ones), template weights, topics, contextual models and
+ * retirement states are read once; writes go through and refresh the cache.
+ */
+export function createCachedBanditStore(base: BanditStore = dbBanditStore): BanditStore {
+  const arms = new Map<string, ArmRecord | null>(); // null: known not to exist
+  const weights = new Map<string, Promise<TemplateWeightSnapshot>>();
+  let topics: Promise<string[]> | undefined;
+  const contextualModels = new Map<string, Promise<ContextualModel>>();
+  const retirementStates = new Map<string, Promise<ArmRetirementState>>();
+
+  const getArms = async (armIds: string[]): Promise<Map<string, ArmRecord>> => {
+    const missing = [...new Set(armIds)].filter((armId) => !arms.has(armId));
+    if (missing.length > 0) {
+      const loaded = await base.getArms(missing);
+      for (const armId of missing) arms.set(armId, loaded.get(armId) || null);
+    }
+
+    const result = new Map<string, ArmRecord>();
+    for (const armId of armIds) {
+      const arm = arms.get(armId);
+      if (arm) result.set(armId, arm);
+    }
+    return result;
+  };
+
+  return {
+    async getArm(armId) {
+      return (await getArms([armId])).get(armId);
+    },
+    getArms,
+    async saveArm(platform, arm) {
+      await base.saveArm(platform, arm);
+      arms.set(arm.armId, { ...arm });
+    },
+    getWeights(platform) {
+      if (!weights.has(platform)) weights.set(platform, base.getWeights(platform));
+      return weights.get(platform)!;
+    },
+    getTopics() {
+      if (!topics) topics = base.getTopics();
+      return topics;
+    },
+    loadContextualModel(platform) {
+      if (!contextualModels.has(platform)) {
+        contextualModels.set(platform, base.loadContextualModel(platform));
+      }
+      return contextualModels.get(platform)!;
+    },
+    getRetirementState(platform) {
+      if (!retirementStates.has(platform)) {
+        retirementStates.set(platform, base.getRetirementState(platform));
+      }
+      return retirementStates.get(platform)!;
+    },
+    async saveRetirementState(platform, state) {
+      await base.saveRetirementState(platform, state);
+      retirementStates.set(platform, Promise.resolve(state));
+    },
+    logSelection(entry) {
+      return base.logSelection(entry);
+    },
+  };
+}
+
+/**
+ * In-memory store for simulations and scripts. Nothing touches the database.
+ */
+export function createMemoryBanditStore(
+  weights: TemplateWeightSnapshot = { formats: {}, hookTypes: {} },
+  topics: string[] = [...config.topics]
+): BanditStore & {
+  arms: Map<string, ArmRecord>;
+  contextualModels: Record<"x" | "threads", ContextualModel>;
+  retirementStates: Record<"x" | "threads", ArmRetirementState>;
+} {
+  const arms = new Map<string, ArmRecord>();
+  const contextualModels = { x: createContextualModel(), threads: createContextualModel() };
+  const retirementStates = { x: createRetirementState(), threads: createRetirementState() };
+  let nextLogId = 1;
+
+  return {
+    arms,
+    contextualModels,
+    retirementStates,
+    async getArm(armId) {
+      return arms.get(armId);
+    },
+    async getArms(armIds) {
+      return new Map(
+        armIds.filter((armId) => arms.has(armId)).map((armId) => [armId, arms.get(armId)!])
+      );
+    },
+    async saveArm(_platform, arm) {
+      arms.set(arm.armId, { ...arm });
+    },
+    async getWeights() {
+      return weights;
+    },
+    async getTopics() {
+      return topics;
+    },
+    async loadContextualModel(platform) {
+      return contextualModels[platform];
+    },
+    async getRetirementState(platform) {
+      return retirementStates[platform];
+    },
+    async saveRetirementState(platform, state) {
+      retirementStates[platform] = state;
+    },
+    async logSelection() {
+      return nextLogId++;
+    },
+  };
+}
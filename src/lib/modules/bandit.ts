@@ -1,8 +1,63 @@
 import { db } from "@/lib/db";
-import { armPriors, metrics, publishedPosts, systemEvents } from "@/lib/db/schema";
+import {
+  accounts,
+  armPriors,
+  learningLedger,
+  metrics,
+  publishedPosts,
+  scheduledPosts,
+  systemEvents,
+} from "@/lib/db/schema";
 import { config } from "@/lib/config";
-import { eq, and, gte, desc } from "drizzle-orm";
-import { getCurrentWeights } from "./template-synthesizer";
+import { eq, and, gte, desc, inArray, isNull } from "drizzle-orm";
+import { addDays, subDays } from "date-fns";
+import {
+  adjustContextualReward,
+  getBanditStrategy,
+  saveContextualModel,
+  scoreContextualCandidates,
+  updateContextualModel,
+  type BanditStrategy,
+  type ContextualModel,
+} from "./contextual-bandit";
+import {
+  armScope,
+  dbBanditStore,
+  loadAccountBanditStore,
+  parseArmId,
+  type BanditStore,
+  type RetirementDecision,
+} from "./bandit-store";
+import { createSnapshot } from "./bandit-snapshots";
+import { gaussianRandom, shuffle, type Rng } from "@/lib/utils/random";
+import { classifyEmojiDensity, classifyLengthBucket } from "@/lib/utils/text-features";
+import {
+  LEARNING_LOOKBACK_DAYS,
+  getLedgerEntries,
+  findLedgerEntry,
+  markReconciled,
+  recordCredit,
+  updateCredit,
+} from "./learning-ledger";
+import {
+  EARLY_WINDOW_HOURS,
+  fitEarlyRewardModel,
+  predictReward,
+  type EarlyRewardModel,
+} from "./early-reward";
+import {
+  calculateReward,
+  getActiveRewardDefinition,
+  getRewardKey,
+  getRewardSignals,
+  type RewardDefinition,
+} from "./reward";
+
+// Metric window the bandit learns from
+const LEARNING_WINDOW_HOURS = 24;
+
+// Re-draws used to estimate the propensity of a randomized selection
+const PROPENSITY_DRAWS = 50;
 
 interface Arm {
   platform: string;
@@ -23,6 +78,25 @@ interface ArmStats {
   pullCount: number;
 }
 
+interface BetaPosterior {
+  alpha: number;
+  beta: number;
+}
+
+export type DecayMode = "cumulative" | "discounted" | "sliding_window";
+
+export type LearningUpdateResult = {
+  learned: number; // posts credited for the first time
+  alreadyLearned: number; // posts whose credits are all current
+  recredited: number; // posts re-applied under a new reward version
+  skipped: number; // posts without arm or metrics
+  provisional: number; // posts credited provisionally from 6h metrics
+  reconciled: number; // provisional credits replaced by the 24h credit
+  decayMode: DecayMode;
+  rebuiltArms?: number;
+  retirementDecisions?: number; // arms retired, sent for re-test or reinstated
+};
+
 /**
  * Generate arm ID from arm parameters
  */
@@ -42,20 +116,20 @@ function getArmId(arm: Partial<Arm>): string {
 /**
  * Thompson Sampling: sample from Beta distribution
  */
-function sampleBeta(alpha: number, beta: number): number {
+function sampleBeta(alpha: number, beta: number, rng: Rng = Math.random): number {
   // Use Gamma distribution to sample from Beta
   // Beta(a,b) = Gamma(a,1) / (Gamma(a,1) + Gamma(b,1))
-  const gammaA = gammaVariate(alpha);
-  const gammaB = gammaVariate(beta);
+  const gammaA = gammaVariate(alpha, rng);
+  const gammaB = gammaVariate(beta, rng);
   return gammaA / (gammaA + gammaB);
 }
 
 /**
  * Generate Gamma variate using Marsaglia and Tsang's method
  */
-function gammaVariate(shape: number): number {
+function gammaVariate(shape: number, rng: Rng): number {
   if (shape < 1) {
-    return gammaVariate(shape + 1) * Math.pow(Math.random(), 1 / shape);
+    return gammaVariate(shape + 1, rng) * Math.pow(rng(), 1 / shape);
   }
 
   const d = shape - 1 / 3;
@@ -66,12 +140,12 @@ function gammaVariate(shape: number): number {
     let v: number;
 
     do {
-      x = gaussianRandom();
+      x = gaussianRandom(rng);
       v = 1 + c * x;
     } while (v <= 0);
 
     v = v * v * v;
-    const u = Math.random();
+    const u = rng();
 
     if (u < 1 - 0.0331 * x * x * x * x) {
       return d * v;
@@ -84,54 +158,140 @@ function gammaVariate(shape: number): number {
 }
 
 /**
- * Box-Muller transform for Gaussian random number
- */
-function gaussianRandom(): number {
-  const u1 = Math.random();
-  const u2 = Math.random();
-  return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
-}
-
-/**
- * UCB1 score calculation
+ * UCB1-Tuned score calculation (rewards normalized to 0-1): the exploration bonus is scaled by
+ * the reward variance, capped at 1/4, instead of assuming the widest spread
  */
 function calculateUCB(totalReward: number, pullCount: number, totalPulls: number): number {
   if (pullCount === 0) return Infinity;
   const exploitation = totalReward / pullCount;
-  const exploration = Math.sqrt((2 * Math.log(totalPulls + 1)) / pullCount);
+  const logTerm = Math.log(totalPulls + 1) / pullCount;
+  const variance = exploitation * (1 - exploitation) + Math.sqrt(2 * logTerm);
+  const exploration = Math.sqrt(logTerm * Math.min(0.25, Math.max(0, variance)));
   return exploitation + exploration;
 }
 
 /**
- * Get or create arm stats
+ * Get the configured posterior decay mode
  */
-async function getArmStats(armId: string, platform: string): Promise<ArmStats> {
-  const existing = await db.query.armPriors.findFirst({
-    where: eq(armPriors.armId, armId),
-  });
+export function getDecayMode(): DecayMode {
+  const mode = config.banditDecayMode;
+  if (mode === "discounted" || mode === "sliding_window") return mode;
+  return "cumulative";
+}
 
-  if (existing) {
+/**
+ * Exponential discount applied to evidence last updated at `updatedAt`.
+ * Always 1 outside of discounted mode.
+ */
+function getDecayFactor(updatedAt: Date, now: Date = new Date()): number {
+  if (getDecayMode() !== "discounted") return 1;
+  const ageDays = Math.max(0, (now.getTime() - updatedAt.getTime()) / (24 * 60 * 60 * 1000));
+  return Math.pow(0.5, ageDays / config.banditDecayHalfLifeDays);
+}
+
+/**
+ * Shrink evidence beyond the Beta(1,1) base by a decay factor
+ */
+function decayPosterior(posterior: BetaPosterior, factor: number): BetaPosterior {
+  return {
+    alpha: 1 + (posterior.alpha - 1) * factor,
+    beta: 1 + (posterior.beta - 1) * factor,
+  };
+}
+
+/**
+ * Load stats for a set of arms in one round-trip, with decay applied.
+ * The returned lookup gives Beta(1,1) defaults for arms that do not exist yet.
+ */
+async function loadArmStats(
+  armIds: string[],
+  store: BanditStore = dbBanditStore,
+  now: Date = new Date()
+): Promise<(armId: string) => ArmStats> {
+  const records = await store.getArms([...new Set(armIds)]);
+
+  return (armId) => {
+    const existing = records.get(armId);
+    if (existing) {
+      const decayed = decayPosterior(existing, getDecayFactor(existing.updatedAt, now));
+      return {
+        armId: existing.armId,
+        alpha: decayed.alpha,
+        beta: decayed.beta,
+        totalReward: existing.totalReward,
+        pullCount: existing.pullCount,
+      };
+    }
+
+    // Create new with default priors
     return {
-      armId: existing.armId,
-      alpha: existing.alpha,
-      beta: existing.beta,
-      totalReward: existing.totalReward || 0,
-      pullCount: existing.pullCount || 0,
+      armId,
+      alpha: 1.0,
+      beta: 1.0,
+      totalReward: 0,
+      pullCount: 0,
     };
-  }
+  };
+}
+
+/**
+ * Shrink a level's own evidence toward its parent posterior.
+ * The parent lends at most `config.banditPriorMaxStrength` pseudo-observations,
+ * so a level with plenty of its own pulls is dominated by its own data.
+ */
+function shrinkTowardParent(stats: ArmStats, parent: BetaPosterior): BetaPosterior {
+  const parentTotal = parent.alpha + parent.beta;
+  const strength = Math.min(parentTotal, config.banditPriorMaxStrength);
+  const parentMean = parent.alpha / parentTotal;
+
+  // Evidence beyond the Beta(1,1) base
+  const successes = Math.max(0, stats.alpha - 1);
+  const failures = Math.max(0, stats.beta - 1);
 
-  // Create new with default priors
   return {
-    armId,
-    alpha: 1.0,
-    beta: 1.0,
-    totalReward: 0,
-    pullCount: 0,
+    alpha: parentMean * strength + successes,
+    beta: (1 - parentMean) * strength + failures,
   };
 }
 
 /**
- * Select best arm using Thompson Sampling with template weight priors
+ * Arm IDs read when pooling a candidate's posterior, from the root down
+ */
+function getPooledArmIds(arm: Partial<Arm>): string[] {
+  const platform = arm.platform;
+  return [
+    getArmId({ platform, format: arm.format }),
+    getArmId({ platform, hookType: arm.hookType }),
+    getArmId({ platform, format: arm.format, hookType: arm.hookType }),
+    getArmId(arm),
+  ];
+}
+
+/**
+ * Pool evidence hierarchically:
+ * format-only + hook-only priors -> format×hook -> fully specified arm
+ */
+function getPooledPosterior(
+  arm: Partial<Arm>,
+  lookup: (armId: string) => ArmStats
+): BetaPosterior {
+  const [formatStats, hookStats, formatHookStats, fullStats] = getPooledArmIds(arm).map(lookup);
+
+  // Root: format-only and hook-only evidence on top of Beta(1,1)
+  const root: BetaPosterior = {
+    alpha: 1 + Math.max(0, formatStats.alpha - 1) + Math.max(0, hookStats.alpha - 1),
+    beta: 1 + Math.max(0, formatStats.beta - 1) + Math.max(0, hookStats.beta - 1),
+  };
+
+  const formatHook = shrinkTowardParent(formatHookStats, root);
+  return shrinkTowardParent(fullStats, formatHook);
+}
+
+/**
+ * Select best arm using Thompson Sampling with template weight priors.
+ * Every selection is logged with its candidate set, scores and estimated propensity.
+ * The time context comes from `publishAt` (the slot the post will go out in), not the
+ * generation time. `store`, `rng` and `now` are injectable so selections can be replayed offline.
  */
 export async function selectArm(
   platform: "x" | "threads",
@@ -139,25 +299,41 @@ export async function selectArm(
     candidateFormats?: string[];
     candidateHooks?: string[];
     candidateTopics?: string[];
+    publishAt?: Date;
+    strategy?: BanditStrategy;
+    store?: BanditStore;
+    rng?: Rng;
+    now?: Date;
+    logSelection?: boolean;
   } = {}
 ): Promise<{
   format: string;
   hookType: string;
   topic: string;
+  lengthBucket: string;
+  emojiDensity: string;
+  timeBucket: string;
+  dayOfWeek: number;
   armId: string;
+  propensity?: number;
+  selectionLogId?: number;
 }> {
+  const store = options.store || dbBanditStore;
+  const rng = options.rng || Math.random;
+  const logSelection = options.logSelection ?? true;
+
   // Get current template weights (from external learning)
-  const weights = await getCurrentWeights(platform);
+  const weights = await store.getWeights(platform);
 
   const formats = options.candidateFormats || [...config.formats];
   const hooks = options.candidateHooks || [...config.hookTypes];
-  const topics = options.candidateTopics || config.topics;
+  const topics = options.candidateTopics || (await store.getTopics());
 
-  // Get current day/time bucket
-  const now = new Date();
-  const dayOfWeek = now.getDay();
-  const hour = now.getHours();
-  const timeBucket = getTimeBucket(hour);
+  // Day/time bucket of the slot the post will be published in
+  const now = options.now || new Date();
+  const publishAt = options.publishAt || now;
+  const dayOfWeek = publishAt.getDay();
+  const timeBucket = getTimeBucket(publishAt.getHours());
 
   // Optimize: Instead of trying all combinations, use weighted sampling
   // Step 1: Get top formats and hooks based on weights
@@ -176,72 +352,254 @@ export async function selectArm(
   const topHooks = hookScores.slice(0, Math.min(5, hooks.length));
   
   // Step 3: Pre-sample topics (random selection for diversity)
-  const sampledTopics = [...topics] // Create a copy to avoid mutating readonly array
-    .sort(() => Math.random() - 0.5) // Randomize
+  const sampledTopics = shuffle([...topics], rng) // Copy to avoid mutating readonly array
     .slice(0, Math.min(10, topics.length)); // Top 10 for efficiency
 
-  let bestScore = -Infinity;
-  let bestChoice = {
-    format: formats[0],
-    hookType: hooks[0],
-    topic: topics[0],
-    armId: "",
-  };
-
   // Sample from top combinations (reduced from 735 to ~250 max)
-  const candidates: Array<{ format: string; hookType: string; topic: string }> = [];
+  const combinations: Array<{ format: string; hookType: string; topic: string }> = [];
   
   for (const { format } of topFormats) {
     for (const { hookType } of topHooks) {
       for (const topic of sampledTopics) {
-        candidates.push({ format, hookType, topic });
+        combinations.push({ format, hookType, topic });
       }
     }
   }
 
+  // Retired arms sit out until their re-test date (unless nothing else is left)
+  const retirement = await store.getRetirementState(platform);
+  const active = combinations.filter(
+    (c) => retirement.arms[getArmId({ platform, ...c })]?.status !== "retired"
+  );
+  const candidates = active.length > 0 ? active : combinations;
+
   // Shuffle for exploration
-  candidates.sort(() => Math.random() - 0.5);
+  shuffle(candidates, rng);
 
   // Evaluate candidates (limit to reasonable number)
   const maxCandidates = Math.min(100, candidates.length);
-  for (let i = 0; i < maxCandidates; i++) {
-    const { format, hookType, topic } = candidates[i];
-    
-    const arm: Partial<Arm> = {
+  const evaluated = candidates.slice(0, maxCandidates);
+  const evaluatedArms = evaluated.map((c) => ({ platform, ...c, timeBucket, dayOfWeek }));
+
+  const strategy = options.strategy || getBanditStrategy(platform);
+  const usesArmStats = strategy === "thompson" || strategy === "ucb";
+
+  // Every arm this selection reads, loaded in one query (parent levels are shared)
+  const lookup = await loadArmStats(
+    [
+      ...config.lengthBuckets.map((lengthBucket) => getArmId({ platform, lengthBucket })),
+      ...config.emojiDensities.map((emojiDensity) => getArmId({ platform, emojiDensity })),
+      ...evaluated.map((c) => getArmId({ platform, ...c })),
+      ...(usesArmStats ? evaluatedArms.flatMap(getPooledArmIds) : []),
+    ],
+    store,
+    now
+  );
+
+  // Length and emoji density are chosen from their own weights and posteriors
+  const style = {
+    lengthBucket: selectStyle(
       platform,
-      format,
-      hookType,
-      topic,
+      "lengthBucket",
+      config.lengthBuckets,
+      weights.lengthBuckets || {},
+      lookup,
+      rng
+    ),
+    emojiDensity: selectStyle(
+      platform,
+      "emojiDensity",
+      config.emojiDensities,
+      weights.emojiDensities || {},
+      lookup,
+      rng
+    ),
+  };
+
+  if (candidates.length === 0) {
+    return {
+      format: formats[0],
+      hookType: hooks[0],
+      topic: topics[0],
+      ...style,
       timeBucket,
       dayOfWeek,
+      armId: "",
+      propensity: 1,
     };
+  }
 
-    const armId = getArmId(arm);
-    const stats = await getArmStats(armId, platform);
+  // Probability that the chosen candidate made it into the evaluated set at all
+  const inclusionProbability =
+    (sampledTopics.length / topics.length) * (maxCandidates / candidates.length);
 
-    // Apply external learning priors
-    const formatWeight = weights.formats[format] || 1.0;
-    const hookWeight = weights.hookTypes[hookType] || 1.0;
+  let scores: number[];
+  let estimateWinProbability: (index: number) => number;
 
-    // Adjust alpha based on external weights
-    const adjustedAlpha = stats.alpha * formatWeight * hookWeight;
+  if (strategy === "lin_ucb" || strategy === "lin_thompson") {
+    // Feature-based contextual bandit generalizes across unseen combinations
+    const model = await store.loadContextualModel(platform);
+    // Scored with the chosen length / emoji density, as the model is trained on them
+    const contexts = evaluated.map((c) => ({ ...c, ...style, timeBucket, dayOfWeek }));
+    scores = scoreContextualCandidates(model, strategy, contexts, rng);
+    estimateWinProbability =
+      strategy === "lin_ucb"
+        ? () => 1 // Deterministic argmax
+        : (index) =>
+            estimateWinRate(index, () =>
+              scoreContextualCandidates(model, strategy, contexts, rng)
+            );
+  } else {
+    const posteriors: BetaPosterior[] = [];
+    for (const arm of evaluatedArms) {
+      const { format, hookType } = arm;
+      const posterior = getPooledPosterior(arm, lookup);
 
-    // Thompson Sampling
-    const sample = sampleBeta(adjustedAlpha, stats.beta);
+      // Apply external learning priors
+      const formatWeight = weights.formats[format] || 1.0;
+      const hookWeight = weights.hookTypes[hookType] || 1.0;
 
-    if (sample > bestScore) {
-      bestScore = sample;
-      bestChoice = { format, hookType, topic, armId };
+      // Adjust alpha based on external weights
+      posteriors.push({ alpha: posterior.alpha * formatWeight * hookWeight, beta: posterior.beta });
     }
+
+    if (strategy === "ucb") {
+      // UCB on the pooled posteriors Thompson samples from, so unpulled arms borrow their
+      // parents' evidence instead of all scoring Infinity. Deterministic given the candidate set.
+      const evidence = posteriors.map((p) => p.alpha + p.beta);
+      const totalPulls = evaluatedArms.reduce((sum, arm) => sum + lookup(getArmId(arm)).pullCount, 0);
+      scores = posteriors.map((p, i) => calculateUCB(p.alpha, evidence[i], totalPulls));
+      estimateWinProbability = () => 1;
+    } else {
+      // Thompson Sampling
+      scores = posteriors.map((p) => sampleBeta(p.alpha, p.beta, rng));
+      estimateWinProbability = (index) =>
+        estimateWinRate(index, () => posteriors.map((p) => sampleBeta(p.alpha, p.beta, rng)));
+    }
+  }
+
+  let bestIndex = 0;
+  for (let i = 1; i < scores.length; i++) {
+    if (scores[i] > scores[bestIndex]) bestIndex = i;
+  }
+
+  // Exploration budget: a share of selections goes uniformly to under-sampled arms
+  const underSampled = evaluated
+    .map((c, i) => ({ index: i, pulls: lookup(getArmId({ platform, ...c })).pullCount }))
+    .filter((c) => c.pulls < config.explorationMinPulls)
+    .map((c) => c.index);
+  const exploreProbability = underSampled.length > 0 ? config.explorationShare : 0;
+  const explored = exploreProbability > 0 && rng() < exploreProbability;
+  if (explored) {
+    bestIndex = underSampled[Math.floor(rng() * underSampled.length)];
   }
 
-  return bestChoice;
+  const best = evaluated[bestIndex];
+  const armId = getArmId({ platform, ...best, ...style, timeBucket, dayOfWeek });
+
+  // Propensity re-draws are only needed when the decision is logged
+  if (!logSelection) {
+    return { ...best, ...style, timeBucket, dayOfWeek, armId };
+  }
+
+  const propensity =
+    ((1 - exploreProbability) * estimateWinProbability(bestIndex) +
+      (underSampled.includes(bestIndex) ? exploreProbability / underSampled.length : 0)) *
+    inclusionProbability;
+
+  // Log the decision for offline policy evaluation
+  const selectionLogId = await store.logSelection({
+    platform,
+    strategy,
+    armId,
+    format: best.format,
+    hookType: best.hookType,
+    topic: best.topic,
+    // UCB scores of unpulled arms are Infinity, which JSON cannot hold
+    candidates: evaluated.map((c, i) => ({
+      ...c,
+      score: Number.isFinite(scores[i]) ? scores[i] : Number.MAX_VALUE,
+    })),
+    propensity,
+    inclusionProbability,
+    explored,
+  });
+
+  return { ...best, ...style, timeBucket, dayOfWeek, armId, propensity, selectionLogId };
+}
+
+/**
+ * Thompson-sample one style dimension from its marginal arms (e.g. `x:*:*:*:short:*:*:*`),
+ * with alpha scaled by the dimension's template weight
+ */
+function selectStyle(
+  platform: string,
+  dimension: "lengthBucket" | "emojiDensity",
+  values: readonly string[],
+  weights: Record<string, number>,
+  lookup: (armId: string) => ArmStats,
+  rng: Rng
+): string {
+  let best = values[0];
+  let bestScore = -Infinity;
+
+  for (const value of values) {
+    const stats = lookup(getArmId({ platform, [dimension]: value }));
+    const score = sampleBeta(stats.alpha * (weights[value] || 1.0), stats.beta, rng);
+    if (score > bestScore) {
+      best = value;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Replace the length/emoji dimensions of an arm ID with the style a post actually has
+ */
+export function relabelArmStyle(
+  armId: string,
+  style: { lengthBucket: string; emojiDensity: string }
+): string {
+  const parts = armId.split(":");
+  parts[4] = style.lengthBucket;
+  parts[7] = style.emojiDensity;
+  return parts.join(":");
+}
+
+/**
+ * Replace the time bucket / weekday dimensions of an arm ID with those of the slot a post
+ * actually goes out in
+ */
+export function relabelArmTime(armId: string, publishAt: Date): string {
+  const parts = armId.split(":");
+  parts[5] = getTimeBucket(publishAt.getHours());
+  parts[6] = publishAt.getDay().toString();
+  return parts.join(":");
+}
+
+/**
+ * Estimate how often `index` wins when the randomized scoring is re-run.
+ * The observed win counts as one draw, so the estimate is never zero.
+ */
+function estimateWinRate(index: number, drawScores: () => number[]): number {
+  let wins = 1;
+  for (let draw = 0; draw < PROPENSITY_DRAWS; draw++) {
+    const scores = drawScores();
+    let bestIndex = 0;
+    for (let i = 1; i < scores.length; i++) {
+      if (scores[i] > scores[bestIndex]) bestIndex = i;
+    }
+    if (bestIndex === index) wins++;
+  }
+  return wins / (PROPENSITY_DRAWS + 1);
 }
 
 /**
  * Get time bucket from hour
  */
-function getTimeBucket(hour: number): string {
+export function getTimeBucket(hour: number): string {
   if (hour >= 5 && hour < 7) return "early_morning";
   if (hour >= 7 && hour < 9) return "morning";
   if (hour >= 9 && hour < 12) return "late_morning";
@@ -251,136 +609,763 @@ function getTimeBucket(hour: number): string {
   return "late_night";
 }
 
+/**
+ * Arms credited by a reward on `armId`: the arm itself, the same arm without style
+ * (what selection scores), its format×hook parent so evidence pools across topics and times,
+ * and the marginal length / emoji density arms
+ */
+function getCreditedArmIds(armId: string): string[] {
+  const platform = armId.split(":")[0];
+  const arm = parseArmId(armId);
+  const armIds = [armId];
+
+  if (arm.format && arm.hookType) {
+    armIds.push(
+      getArmId({
+        platform,
+        format: arm.format,
+        hookType: arm.hookType,
+        topic: arm.topic ?? undefined,
+        timeBucket: arm.timeBucket ?? undefined,
+        dayOfWeek: arm.dayOfWeek ?? undefined,
+      }),
+      getArmId({ platform, format: arm.format, hookType: arm.hookType })
+    );
+  }
+  if (arm.format && arm.hookType && arm.topic) {
+    // Candidate level (any slot or style), which exploration and retirement count pulls on
+    armIds.push(
+      getArmId({ platform, format: arm.format, hookType: arm.hookType, topic: arm.topic })
+    );
+  }
+  if (arm.lengthBucket) armIds.push(getArmId({ platform, lengthBucket: arm.lengthBucket }));
+  if (arm.emojiDensity) armIds.push(getArmId({ platform, emojiDensity: arm.emojiDensity }));
+
+  return [...new Set(armIds)];
+}
+
 /**
  * Update arm with reward from metrics
  */
 export async function updateArm(
   armId: string,
   platform: string,
-  reward: number
+  reward: number,
+  options: { store?: BanditStore; now?: Date } = {}
 ): Promise<void> {
-  const existing = await db.query.armPriors.findFirst({
-    where: eq(armPriors.armId, armId),
-  });
+  for (const creditedArmId of getCreditedArmIds(armId)) {
+    await creditArm(creditedArmId, platform, reward, options);
+  }
+}
 
-  // Normalize reward to 0-1 range for Beta distribution
-  const normalizedReward = Math.min(1, Math.max(0, reward / 10));
+/**
+ * Penalize an arm for a draft a reviewer rejected: `weight` failures (reward 0) on each
+ * credited arm, without counting a pull
+ */
+export async function penalizeArm(
+  armId: string,
+  platform: string,
+  weight: number,
+  options: { store?: BanditStore; now?: Date } = {}
+): Promise<void> {
+  if (weight <= 0) return;
+  for (const creditedArmId of getCreditedArmIds(armId)) {
+    await creditArm(creditedArmId, platform, 0, { ...options, weight, countPull: false });
+  }
+}
+
+/**
+ * Apply a single reward to one arm row.
+ * `weight` < 1 (or `countPull` false) makes a provisional credit (partial evidence, no pull
+ * counted); `replaces` removes the provisional credit this reward supersedes.
+ */
+async function creditArm(
+  armId: string,
+  platform: string,
+  reward: number,
+  options: {
+    store?: BanditStore;
+    now?: Date;
+    weight?: number;
+    countPull?: boolean;
+    replaces?: { weight: number; normalizedReward: number };
+  } = {}
+): Promise<void> {
+  const store = options.store || dbBanditStore;
+  const now = options.now || new Date();
+  const weight = options.weight ?? 1;
+  const isProvisional = weight < 1 || options.countPull === false;
+  const normalizedReward = normalizeReward(reward);
+
+  let successes = weight * normalizedReward;
+  let failures = weight * (1 - normalizedReward);
+  if (options.replaces) {
+    successes -= options.replaces.weight * options.replaces.normalizedReward;
+    failures -= options.replaces.weight * (1 - options.replaces.normalizedReward);
+  }
+
+  const existing = await store.getArm(armId);
 
   if (existing) {
-    // Update using Bayesian update
-    await db
-      .update(armPriors)
-      .set({
-        alpha: existing.alpha + normalizedReward,
-        beta: existing.beta + (1 - normalizedReward),
-        totalReward: (existing.totalReward || 0) + reward,
-        pullCount: (existing.pullCount || 0) + 1,
-        updatedAt: new Date(),
-      })
-      .where(eq(armPriors.id, existing.id));
+    // Discount old evidence (no-op unless discounted mode), then Bayesian update
+    const decayed = decayPosterior(existing, getDecayFactor(existing.updatedAt, now));
+    await store.saveArm(platform, {
+      armId,
+      alpha: Math.max(0.01, decayed.alpha + successes),
+      beta: Math.max(0.01, decayed.beta + failures),
+      totalReward: existing.totalReward + (isProvisional ? 0 : reward),
+      pullCount: existing.pullCount + (isProvisional ? 0 : 1),
+      updatedAt: now,
+    });
   } else {
-    // Parse arm components from armId
-    const parts = armId.split(":");
-    await db.insert(armPriors).values({
+    await store.saveArm(platform, {
       armId,
-      platform,
-      format: parts[1] !== "*" ? parts[1] : null,
-      hookType: parts[2] !== "*" ? parts[2] : null,
-      topic: parts[3] !== "*" ? parts[3] : null,
-      lengthBucket: parts[4] !== "*" ? parts[4] : null,
-      timeBucket: parts[5] !== "*" ? parts[5] : null,
-      dayOfWeek: parts[6] !== "*" ? parseInt(parts[6]) : null,
-      emojiDensity: parts[7] !== "*" ? parts[7] : null,
-      alpha: 1 + normalizedReward,
-      beta: 2 - normalizedReward,
-      totalReward: reward,
-      pullCount: 1,
-      source: "self_learning",
+      alpha: Math.max(0.01, 1 + successes),
+      beta: Math.max(0.01, 1 + failures),
+      totalReward: isProvisional ? 0 : reward,
+      pullCount: isProvisional ? 0 : 1,
+      updatedAt: now,
     });
   }
 }
 
 /**
- * Calculate reward from impressions
+ * Replace a previously applied reward on one arm with a new one
  */
-export function calculateReward(
-  impressions24h: number,
-  penalties: { duplicate?: boolean; lowQuality?: boolean; overPosting?: boolean } = {}
-): number {
-  // Base reward: log of impressions
-  let reward = Math.log(1 + impressions24h);
-
-  // Apply penalties
-  if (penalties.duplicate) reward -= 2;
-  if (penalties.lowQuality) reward -= 1;
-  if (penalties.overPosting) reward -= 0.5;
-
-  return Math.max(0, reward);
+async function adjustArmReward(
+  armId: string,
+  oldReward: number,
+  newReward: number,
+  accountId?: number
+): Promise<void> {
+  const existing = await db.query.armPriors.findFirst({
+    where: and(eq(armPriors.armId, armId), armScope(accountId)),
+  });
+  if (!existing) return;
+
+  const normalizedDelta = normalizeReward(newReward) - normalizeReward(oldReward);
+  await db
+    .update(armPriors)
+    .set({
+      alpha: Math.max(0.01, existing.alpha + normalizedDelta),
+      beta: Math.max(0.01, existing.beta - normalizedDelta),
+      totalReward: (existing.totalReward || 0) + newReward - oldReward,
+      updatedAt: new Date(),
+    })
+    .where(eq(armPriors.id, existing.id));
 }
 
 /**
- * Run learning update for recent posts with collected metrics
+ * Normalize reward to 0-1 range for Beta distribution
  */
-export async function runLearningUpdate(): Promise<{
-  updated: number;
-  skipped: number;
-}> {
-  const results = { updated: 0, skipped: 0 };
+function normalizeReward(reward: number): number {
+  return Math.min(1, Math.max(0, reward / 10));
+}
+
+// Retirement decisions kept in the retirement state for /api/learning
+const RETIREMENT_HISTORY = 100;
+
+/**
+ * Retire candidate arms (format × hook × topic) that are clearly dominated, and send
+ * retired arms back for re-testing once their re-test date passes.
+ * An arm with at least `config.armRetireMinPulls` pulls is dominated when its upper credible
+ * bound falls below the lower bound of the best such arm. Re-tested arms are judged again
+ * after `config.armRetestPulls` more pulls: retired again or reinstated.
+ * `accountId` only labels the logged event; the store decides whose arms are judged.
+ */
+export async function updateArmRetirement(
+  platform: "x" | "threads",
+  options: { store?: BanditStore; now?: Date; accountId?: number; logEvents?: boolean } = {}
+): Promise<RetirementDecision[]> {
+  if (config.armRetireMinPulls <= 0) return [];
+
+  const store = options.store || dbBanditStore;
+  const now = options.now || new Date();
+  const state = await store.getRetirementState(platform);
+  const decisions: RetirementDecision[] = [];
+
+  const topics = await store.getTopics();
+  const candidateIds = config.formats.flatMap((format) =>
+    config.hookTypes.flatMap((hookType) =>
+      topics.map((topic) => getArmId({ platform, format, hookType, topic }))
+    )
+  );
+  const lookup = await loadArmStats([...candidateIds, ...Object.keys(state.arms)], store, now);
+
+  const summarize = (armId: string) => {
+    const { alpha, beta, pullCount } = lookup(armId);
+    const total = alpha + beta;
+    const mean = alpha / total;
+    const sd = Math.sqrt((alpha * beta) / (total * total * (total + 1)));
+    return { mean, sd, pullCount };
+  };
+
+  // Best arm among those with enough pulls to judge
+  const judged = candidateIds
+    .map((armId) => ({ armId, ...summarize(armId) }))
+    .filter((arm) => arm.pullCount >= config.armRetireMinPulls);
+  const best = judged.reduce<(typeof judged)[number] | undefined>(
+    (top, arm) => (!top || arm.mean > top.mean ? arm : top),
+    undefined
+  );
+  const bestMean = best?.mean ?? 0;
+
+  const decide = (armId: string, action: RetirementDecision["action"]) => {
+    const { mean, pullCount } = summarize(armId);
+    decisions.push({ armId, action, mean, bestMean, pullCount, decidedAt: now.toISOString() });
+  };
+
+  // Retired arms whose time has come go back into the pool
+  for (const [armId, entry] of Object.entries(state.arms)) {
+    if (entry.status === "retired" && now >= new Date(entry.retestAt)) {
+      state.arms[armId] = { ...entry, status: "retesting", pullsAtRetest: lookup(armId).pullCount };
+      decide(armId, "retest");
+    }
+  }
+
+  if (best) {
+    const bestLower = best.mean - config.armRetireZ * best.sd;
+
+    for (const arm of judged) {
+      const entry = state.arms[arm.armId];
+      if (entry?.status === "retired") continue;
+      if (
+        entry?.status === "retesting" &&
+        arm.pullCount < (entry.pullsAtRetest || 0) + config.armRetestPulls
+      ) {
+        continue;
+      }
+
+      const dominated =
+        arm.armId !== best.armId && arm.mean + config.armRetireZ * arm.sd < bestLower;
+      if (dominated) {
+        state.arms[arm.armId] = {
+          status: "retired",
+          retiredAt: now.toISOString(),
+          retestAt: addDays(now, config.armRetestDays).toISOString(),
+          mean: arm.mean,
+          bestMean,
+          pullCount: arm.pullCount,
+        };
+        decide(arm.armId, "retire");
+      } else if (entry?.status === "retesting") {
+        delete state.arms[arm.armId];
+        decide(arm.armId, "reinstate");
+      }
+    }
+  }
+
+  state.decisions = [...decisions].reverse().concat(state.decisions || []).slice(
+    0,
+    RETIREMENT_HISTORY
+  );
+  state.evaluatedAt = now.toISOString();
+  await store.saveRetirementState(platform, state);
+
+  if (decisions.length > 0 && (options.logEvents ?? true)) {
+    const count = (action: RetirementDecision["action"]) =>
+      decisions.filter((d) => d.action === action).length;
+    await db.insert(systemEvents).values({
+      eventType: "arm_retirement_update",
+      severity: "info",
+      message: `Arm retirement (${platform}${options.accountId ? `, account ${options.accountId}` : ""}): ${count("retire")} retired, ${count("retest")} re-testing, ${count("reinstate")} reinstated`,
+      metadata: { platform, accountId: options.accountId, decisions },
+    });
+  }
+
+  return decisions;
+}
 
-  // Get published posts with 24h metrics that haven't been learned from
+/**
+ * Run learning update for recent posts with collected metrics.
+ * The learning ledger guarantees each post × metric window is credited to each learner once;
+ * credits made under an older reward definition are re-applied with the active one.
+ * Posts with only 6h metrics get a provisional, down-weighted credit from the predicted
+ * 24h reward, which is swapped for the real one when the 24h metrics land.
+ * Every post is credited to the pooled learners; a post made by an account is also credited
+ * to that account's own arms and contextual model.
+ */
+export async function runLearningUpdate(): Promise<LearningUpdateResult> {
+  const decayMode = getDecayMode();
+  const results: LearningUpdateResult = {
+    learned: 0,
+    alreadyLearned: 0,
+    recredited: 0,
+    skipped: 0,
+    provisional: 0,
+    reconciled: 0,
+    decayMode,
+  };
+
+  // Keep the arm posteriors being updated recoverable
+  await createSnapshot("pre_learn");
+
+  // Credits made under another reward definition are re-applied
+  const rewardDefinition = await getActiveRewardDefinition();
+  const rewardVersion = getRewardKey(rewardDefinition);
+
+  // Stores and contextual models per account (undefined: pooled), loaded on first use
+  const stores = new Map<number | undefined, BanditStore>([[undefined, dbBanditStore]]);
+  const getStore = async (accountId?: number) => {
+    if (!stores.has(accountId)) stores.set(accountId, await loadAccountBanditStore(accountId));
+    return stores.get(accountId)!;
+  };
+  const contextualModels = new Map<
+    string,
+    { platform: "x" | "threads"; accountId?: number; model: ContextualModel }
+  >();
+  const getContextualModel = async (platform: "x" | "threads", accountId?: number) => {
+    const key = `${platform}:${accountId ?? ""}`;
+    if (!contextualModels.has(key)) {
+      const model = await (await getStore(accountId)).loadContextualModel(platform);
+      contextualModels.set(key, { platform, accountId, model });
+    }
+    return contextualModels.get(key)!.model;
+  };
+
+  // Contextual models learn regardless of the active strategy so they stay warm
+  await getContextualModel("x");
+  await getContextualModel("threads");
+
+  // Get recent published posts; the ledger filters out those already learned from
   const postsToLearn = await db.query.publishedPosts.findMany({
-    where: and(
-      gte(publishedPosts.publishedAt, new Date(Date.now() - 48 * 60 * 60 * 1000))
-    ),
+    where: gte(publishedPosts.publishedAt, subDays(new Date(), LEARNING_LOOKBACK_DAYS)),
     orderBy: desc(publishedPosts.publishedAt),
-    limit: 50,
+    limit: 200,
   });
 
+  // How 6h rewards map to 24h rewards, learned from our own history
+  const earlyModels: Record<"x" | "threads", EarlyRewardModel> = {
+    x: await fitEarlyRewardModel("x", rewardDefinition),
+    threads: await fitEarlyRewardModel("threads", rewardDefinition),
+  };
+
+  const postIds = postsToLearn.map((p) => p.id);
+  const [windowMetrics, ledger, earlyLedger] = await Promise.all([
+    postIds.length > 0
+      ? db.query.metrics.findMany({
+          where: and(
+            inArray(metrics.publishedPostId, postIds),
+            inArray(metrics.hoursAfterPublish, [EARLY_WINDOW_HOURS, LEARNING_WINDOW_HOURS])
+          ),
+        })
+      : Promise.resolve([]),
+    getLedgerEntries(postIds, LEARNING_WINDOW_HOURS),
+    getLedgerEntries(postIds, EARLY_WINDOW_HOURS),
+  ]);
+  const metricByPost = new Map(
+    windowMetrics
+      .filter((m) => m.hoursAfterPublish === LEARNING_WINDOW_HOURS)
+      .map((m) => [m.publishedPostId, m])
+  );
+  const earlyMetricByPost = new Map(
+    windowMetrics
+      .filter((m) => m.hoursAfterPublish === EARLY_WINDOW_HOURS)
+      .map((m) => [m.publishedPostId, m])
+  );
+
   for (const post of postsToLearn) {
-    if (!post.armId) {
+    const postMetrics = metricByPost.get(post.id);
+    const earlyMetrics = earlyMetricByPost.get(post.id);
+    if (!post.armId || (!postMetrics && !earlyMetrics)) {
       results.skipped++;
       continue;
     }
 
-    // Get 24h metrics
-    const postMetrics = await db.query.metrics.findFirst({
-      where: and(
-        eq(metrics.publishedPostId, post.id),
-        eq(metrics.hoursAfterPublish, 24)
-      ),
-    });
+    const platform = post.platform as "x" | "threads";
+    const scopes = post.accountId ? [undefined, post.accountId] : [undefined];
+    const ctx =
+      post.format && post.hookType && post.topic
+        ? {
+            format: post.format,
+            hookType: post.hookType,
+            topic: post.topic,
+            lengthBucket: classifyLengthBucket(post.content, platform),
+            emojiDensity: classifyEmojiDensity(post.content),
+            timeBucket: getTimeBucket(post.publishedAt.getHours()),
+            dayOfWeek: post.publishedAt.getDay(),
+          }
+        : undefined;
+    const earlyEntries = earlyLedger.get(post.id) || [];
 
     if (!postMetrics) {
-      results.skipped++;
+      // Only 6h metrics so far: provisional credit, once
+      if (earlyEntries.length > 0) {
+        results.alreadyLearned++;
+        continue;
+      }
+
+      const earlyReward = calculateReward(
+        getRewardSignals(earlyMetrics!),
+        platform,
+        rewardDefinition
+      );
+      const prediction = predictReward(earlyModels[platform], earlyReward);
+      if (!prediction) {
+        results.skipped++;
+        continue;
+      }
+
+      const provisionalCredit = {
+        publishedPostId: post.id,
+        hoursAfterPublish: EARLY_WINDOW_HOURS,
+        rewardVersion,
+        reward: prediction.reward,
+        normalizedReward: normalizeReward(prediction.reward),
+        weight: prediction.weight,
+      };
+
+      for (const accountId of scopes) {
+        const store = await getStore(accountId);
+        for (const armId of getCreditedArmIds(post.armId)) {
+          // Ledger first: a crashed or overlapping run never credits twice
+          const claimed = await recordCredit({
+            ...provisionalCredit,
+            target: "arm",
+            armId,
+            accountId,
+          });
+          if (claimed && decayMode !== "sliding_window") {
+            await creditArm(armId, post.platform, prediction.reward, {
+              store,
+              weight: prediction.weight,
+            });
+          }
+        }
+
+        if (
+          ctx &&
+          (await recordCredit({
+            ...provisionalCredit,
+            target: "contextual",
+            armId: platform,
+            accountId,
+          }))
+        ) {
+          updateContextualModel(
+            await getContextualModel(platform, accountId),
+            ctx,
+            provisionalCredit.normalizedReward,
+            prediction.weight
+          );
+        }
+      }
+
+      results.provisional++;
       continue;
     }
 
     // Calculate reward
-    const reward = calculateReward(postMetrics.impressionCount || 0);
+    const reward = calculateReward(getRewardSignals(postMetrics), platform, rewardDefinition);
+    const normalizedReward = normalizeReward(reward);
+    const entries = ledger.get(post.id) || [];
+    const reconciledIds: number[] = [];
+    let credited = false;
+    let recredited = false;
+
+    // Provisional 6h credit still applied to a learner, if any
+    const getProvisional = (target: "arm" | "contextual", armId: string, accountId?: number) => {
+      const entry = findLedgerEntry(earlyEntries, target, armId, accountId);
+      return entry && !entry.reconciledAt ? entry : undefined;
+    };
+
+    for (const accountId of scopes) {
+      const store = await getStore(accountId);
+
+      // Arms (sliding window rebuilds arm posteriors from the metrics table below)
+      for (const armId of getCreditedArmIds(post.armId)) {
+        const entry = findLedgerEntry(entries, "arm", armId, accountId);
+        if (!entry) {
+          const claimed = await recordCredit({
+            publishedPostId: post.id,
+            hoursAfterPublish: LEARNING_WINDOW_HOURS,
+            target: "arm",
+            armId,
+            accountId,
+            rewardVersion: rewardVersion,
+            reward,
+            normalizedReward,
+          });
+          if (!claimed) continue;
+
+          const provisional = getProvisional("arm", armId, accountId);
+          if (decayMode !== "sliding_window") {
+            await creditArm(armId, post.platform, reward, { store, replaces: provisional });
+          }
+          if (provisional) reconciledIds.push(provisional.id);
+          credited = true;
+        } else if (entry.rewardVersion !== rewardVersion) {
+          if (decayMode !== "sliding_window") {
+            await adjustArmReward(armId, entry.reward, reward, accountId);
+          }
+          await updateCredit(entry.id, { rewardVersion: rewardVersion, reward, normalizedReward });
+          recredited = true;
+        }
+      }
 
-    // Update arm
-    await updateArm(post.armId, post.platform, reward);
-    results.updated++;
+      // Contextual model
+      if (ctx) {
+        const model = await getContextualModel(platform, accountId);
+        const entry = findLedgerEntry(entries, "contextual", platform, accountId);
+        if (!entry) {
+          const claimed = await recordCredit({
+            publishedPostId: post.id,
+            hoursAfterPublish: LEARNING_WINDOW_HOURS,
+            target: "contextual",
+            armId: platform,
+            accountId,
+            rewardVersion: rewardVersion,
+            reward,
+            normalizedReward,
+          });
+          if (!claimed) continue;
+
+          const provisional = getProvisional("contextual", platform, accountId);
+          if (provisional) {
+            // Top the partial observation up to a full one and swap the predicted reward
+            updateContextualModel(model, ctx, 0, 1 - provisional.weight);
+            adjustContextualReward(
+              model,
+              ctx,
+              normalizedReward - provisional.weight * provisional.normalizedReward
+            );
+            reconciledIds.push(provisional.id);
+          } else {
+            updateContextualModel(model, ctx, normalizedReward);
+          }
+          credited = true;
+        } else if (entry.rewardVersion !== rewardVersion) {
+          adjustContextualReward(model, ctx, normalizedReward - entry.normalizedReward);
+          await updateCredit(entry.id, { rewardVersion: rewardVersion, reward, normalizedReward });
+          recredited = true;
+        }
+      }
+    }
+
+    if (reconciledIds.length > 0) {
+      await markReconciled(reconciledIds);
+      results.reconciled++;
+    }
+
+    if (credited) {
+      results.learned++;
+    } else if (recredited) {
+      results.recredited++;
+    } else {
+      results.alreadyLearned++;
+    }
   }
 
+  for (const { platform, accountId, model } of contextualModels.values()) {
+    await saveContextualModel(platform, model, accountId);
+  }
+
+  if (decayMode === "sliding_window") {
+    results.rebuiltArms = await rebuildArmsFromWindow(config.banditWindowDays, rewardDefinition);
+  }
+
+  // Retire dominated arms and bring back those due for re-testing, on the updated posteriors
+  const retirementDecisions = [
+    ...(await updateArmRetirement("x")),
+    ...(await updateArmRetirement("threads")),
+  ];
+  const activeAccounts = await db.query.accounts.findMany({
+    where: eq(accounts.isActive, true),
+    columns: { id: true, platform: true },
+  });
+  for (const account of activeAccounts) {
+    retirementDecisions.push(
+      ...(await updateArmRetirement(account.platform as "x" | "threads", {
+        store: await getStore(account.id),
+        accountId: account.id,
+      }))
+    );
+  }
+  results.retirementDecisions = retirementDecisions.length;
+
   // Log (even if no posts were updated)
-  if (results.updated === 0 && results.skipped === 0) {
-    await db.insert(systemEvents).values({
-      eventType: "learning_update_complete",
-      severity: "info",
-      message: `Learning update completed: no posts with metrics found`,
-      metadata: results,
+  await db.insert(systemEvents).values({
+    eventType: "learning_update_complete",
+    severity: "info",
+    message:
+      results.learned === 0 && results.recredited === 0
+        ? `Learning update completed: no new posts to learn from (${results.alreadyLearned} already learned)`
+        : `Learning update completed: ${results.learned} new, ${results.recredited} re-credited, ${results.alreadyLearned} already learned`,
+    metadata: results,
+  });
+
+  return results;
+}
+
+/**
+ * Recompute self-learned arm posteriors from the last `days` of 24h metrics,
+ * plus provisional 6h credits not yet reconciled and review rejections (see penalizeArm),
+ * for the pooled arms and each account's own.
+ * Arms with no rewards inside the window fall back to Beta(1,1).
+ */
+async function rebuildArmsFromWindow(
+  days: number,
+  rewardDefinition: RewardDefinition
+): Promise<number> {
+  const cutoff = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+  const [windowPosts, windowMetrics, provisionalCredits, rejectedDrafts] = await Promise.all([
+    db.query.publishedPosts.findMany({
+      where: gte(publishedPosts.publishedAt, cutoff),
+    }),
+    db.query.metrics.findMany({
+      where: and(eq(metrics.hoursAfterPublish, 24), gte(metrics.collectedAt, cutoff)),
+    }),
+    db.query.learningLedger.findMany({
+      where: and(
+        eq(learningLedger.hoursAfterPublish, EARLY_WINDOW_HOURS),
+        eq(learningLedger.target, "arm"),
+        isNull(learningLedger.reconciledAt),
+        gte(learningLedger.creditedAt, cutoff)
+      ),
+    }),
+    db.query.scheduledPosts.findMany({
+      where: and(eq(scheduledPosts.status, "rejected"), gte(scheduledPosts.reviewedAt, cutoff)),
+      columns: { armId: true, accountId: true, platform: true, reviewPenalty: true },
+    }),
+  ]);
+
+  const metricByPost = new Map(windowMetrics.map((m) => [m.publishedPostId, m]));
+
+  // Aggregate evidence per arm and account inside the window
+  const aggregates = new Map<
+    string,
+    {
+      armId: string;
+      accountId: number | null;
+      platform: string;
+      successes: number;
+      failures: number;
+      totalReward: number;
+      pulls: number;
+    }
+  >();
+  const aggregateKey = (armId: string, accountId: number | null) => `${accountId ?? ""}|${armId}`;
+
+  for (const post of windowPosts) {
+    const metric = metricByPost.get(post.id);
+    if (!post.armId || !metric) continue;
+
+    const reward = calculateReward(
+      getRewardSignals(metric),
+      post.platform as "x" | "threads",
+      rewardDefinition
+    );
+    const normalizedReward = normalizeReward(reward);
+
+    for (const accountId of post.accountId ? [null, post.accountId] : [null]) {
+      for (const armId of getCreditedArmIds(post.armId)) {
+        const key = aggregateKey(armId, accountId);
+        const agg = aggregates.get(key) || {
+          armId,
+          accountId,
+          platform: post.platform,
+          successes: 0,
+          failures: 0,
+          totalReward: 0,
+          pulls: 0,
+        };
+        agg.successes += normalizedReward;
+        agg.failures += 1 - normalizedReward;
+        agg.totalReward += reward;
+        agg.pulls++;
+        aggregates.set(key, agg);
+      }
+    }
+  }
+
+  // Provisional credits add partial evidence without counting a pull
+  const platformByPost = new Map(windowPosts.map((p) => [p.id, p.platform]));
+  for (const credit of provisionalCredits) {
+    const platform = platformByPost.get(credit.publishedPostId);
+    if (!platform) continue;
+
+    const key = aggregateKey(credit.armId, credit.accountId);
+    const agg = aggregates.get(key) || {
+      armId: credit.armId,
+      accountId: credit.accountId,
+      platform,
+      successes: 0,
+      failures: 0,
+      totalReward: 0,
+      pulls: 0,
+    };
+    agg.successes += credit.weight * credit.normalizedReward;
+    agg.failures += credit.weight * (1 - credit.normalizedReward);
+    aggregates.set(key, agg);
+  }
+
+  // Review rejections add failures without counting a pull
+  for (const draft of rejectedDrafts) {
+    if (!draft.armId || !draft.reviewPenalty) continue;
+
+    for (const accountId of draft.accountId ? [null, draft.accountId] : [null]) {
+      for (const armId of getCreditedArmIds(draft.armId)) {
+        const key = aggregateKey(armId, accountId);
+        const agg = aggregates.get(key) || {
+          armId,
+          accountId,
+          platform: draft.platform,
+          successes: 0,
+          failures: 0,
+          totalReward: 0,
+          pulls: 0,
+        };
+        agg.failures += draft.reviewPenalty;
+        aggregates.set(key, agg);
+      }
+    }
+  }
+
+  // Rewrite existing self-learned arms, resetting those that fell out of the window
+  const selfLearnedArms = await db.query.armPriors.findMany({
+    where: eq(armPriors.source, "self_learning"),
+  });
+
+  for (const arm of selfLearnedArms) {
+    const key = aggregateKey(arm.armId, arm.accountId);
+    const agg = aggregates.get(key);
+    await db
+      .update(armPriors)
+      .set({
+        alpha: 1 + (agg?.successes || 0),
+        beta: 1 + (agg?.failures || 0),
+        totalReward: agg?.totalReward || 0,
+        pullCount: agg?.pulls || 0,
+        updatedAt: new Date(),
+      })
+      .where(eq(armPriors.id, arm.id));
+    aggregates.delete(key);
+  }
+
+  // Insert arms seen for the first time; arms owned by external priors are left untouched
+  let inserted = 0;
+  for (const agg of aggregates.values()) {
+    const existing = await db.query.armPriors.findFirst({
+      where: and(eq(armPriors.armId, agg.armId), armScope(agg.accountId ?? undefined)),
     });
-  } else {
-    await db.insert(systemEvents).values({
-      eventType: "learning_update_complete",
-      severity: "info",
-      message: `Learning update completed: ${results.updated} arms updated`,
-      metadata: results,
+    if (existing) continue;
+
+    await db.insert(armPriors).values({
+      armId: agg.armId,
+      platform: agg.platform,
+      accountId: agg.accountId,
+      ...parseArmId(agg.armId),
+      alpha: 1 + agg.successes,
+      beta: 1 + agg.failures,
+      totalReward: agg.totalReward,
+      pullCount: agg.pulls,
+      source: "self_learning",
     });
+    inserted++;
   }
 
-  return results;
+  return selfLearnedArms.length + inserted;
 }
 
 /**
@@ -409,7 +1394,7 @@ export async function injectExternalPriors(
     const armId = getArmId({ platform, format });
 
     const existing = await db.query.armPriors.findFirst({
-      where: eq(armPriors.armId, armId),
+      where: and(eq(armPriors.armId, armId), armScope()),
     });
 
     if (existing) {
@@ -440,7 +1425,7 @@ export async function injectExternalPriors(
     const armId = getArmId({ platform, hookType });
 
     const existing = await db.query.armPriors.findFirst({
-      where: eq(armPriors.armId, armId),
+      where: and(eq(armPriors.armId, armId), armScope()),
     });
 
     if (existing) {
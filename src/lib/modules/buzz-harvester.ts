@@ -2,7 +2,9 @@ import { db } from "@/lib/db";
 import { externalPosts, systemEvents } from "@/lib/db/schema";
 import { xClient } from "@/lib/clients/x-client";
 import { config } from "@/lib/config";
-import { eq, inArray } from "drizzle-orm";
+import { generateContentHash } from "@/lib/utils/minhash";
+import { indexExternalPosts } from "./plagiarism-index";
+import { eq, gte, inArray } from "drizzle-orm";
 
 interface HarvestedTweet {
   externalId: string;
@@ -245,7 +247,26 @@ export async function harvestBuzzTweets(): Promise<{
 
   // Sort by buzz score and take top K
   uniqueHarvested.sort((a, b) => b.buzzScore - a.buzzScore);
-  const topK = uniqueHarvested.slice(0, config.buzzTopKPerDay);
+
+  // Drop copy-paste variants of the same text (normalized content hash), keeping the top-scored one
+  const recentPosts = await db.query.externalPosts.findMany({
+    where: gte(
+      externalPosts.collectedAt,
+      new Date(Date.now() - config.duplicateWindowDays * 24 * 60 * 60 * 1000)
+    ),
+    columns: { text: true },
+  });
+  const seenHashes = new Set(recentPosts.map((post) => generateContentHash(post.text)));
+  const distinctHarvested = uniqueHarvested.filter((tweet) => {
+    const hash = generateContentHash(tweet.text);
+    if (seenHashes.has(hash)) return false;
+    seenHashes.add(hash);
+    return true;
+  });
+  results.skipped += uniqueHarvested.length - distinctHarvested.length;
+  console.log(`[BuzzHarvester] Dropped ${uniqueHarvested.length - distinctHarvested.length} near-identical tweets`);
+
+  const topK = distinctHarvested.slice(0, config.buzzTopKPerDay);
   console.log(`[BuzzHarvester] Top ${topK.length} tweets selected for saving`);
 
   // Batch insert into database (much faster)
@@ -274,12 +295,20 @@ export async function harvestBuzzTweets(): Promise<{
         isSpamSuspect: tweet.isSpamSuspect,
       }));
 
+      // Inserted posts, for the plagiarism index
+      const indexed: Array<{ id: number; text: string; collectedAt: Date }> = [];
+
       // Insert in batches to avoid size limits
       const insertBatchSize = 100;
       for (let i = 0; i < insertValues.length; i += insertBatchSize) {
         const batch = insertValues.slice(i, i + insertBatchSize);
         try {
-          await db.insert(externalPosts).values(batch);
+          const inserted = await db.insert(externalPosts).values(batch).returning({
+            id: externalPosts.id,
+            text: externalPosts.text,
+            collectedAt: externalPosts.collectedAt,
+          });
+          indexed.push(...inserted);
           insertSuccess += batch.length;
           results.collected += batch.length;
         } catch (error) {
@@ -287,7 +316,12 @@ export async function harvestBuzzTweets(): Promise<{
           console.warn(`[BuzzHarvester] Batch insert failed, trying individual inserts for batch ${i}`);
           for (const tweet of batch) {
             try {
-              await db.insert(externalPosts).values(tweet);
+              const inserted = await db.insert(externalPosts).values(tweet).returning({
+                id: externalPosts.id,
+                text: externalPosts.text,
+                collectedAt: externalPosts.collectedAt,
+              });
+              indexed.push(...inserted);
               insertSuccess++;
               results.collected++;
             } catch (err) {
@@ -302,6 +336,9 @@ export async function harvestBuzzTweets(): Promise<{
           }
         }
       }
+
+      // Posts that fail to index here are picked up by the learn cron's maintenance
+      await indexExternalPosts(indexed);
     } catch (error) {
       console.error(`[BuzzHarvester] Batch insert error:`, error instanceof Error ? error.message : String(error));
     }
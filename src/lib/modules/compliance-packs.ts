@@ -0,0 +1,136 @@
+import type { CompliancePack } from "./compliance";
+
+// Amount such as "50万円", "1.5万", "30,000円"
+const AMOUNT = "\\d[\\d,.]*\\s*(?:万|千)?\\s*円?";
+
+// Employment terms and their 業務委託 equivalents
+const CONTRACTOR_WORDING: Record<string, string> = {
+  月給: "月の報酬",
+  時給: "時間あたりの報酬",
+  給与: "報酬",
+  給料: "報酬",
+  入社: "契約開始",
+};
+
+/**
+ * 委託ドライバー recruitment, 単価, 確定申告 and insurance posts
+ */
+export const jpRecruitmentPack: CompliancePack = {
+  name: "jp-recruitment",
+  rules: [
+    // ---- Income guarantees (景品表示法 / 職業安定法の募集広告) ----
+    {
+      id: "income-guaranteed-amount",
+      category: "income_guarantee",
+      severity: "block",
+      description: "収入額を保証・確約している",
+      reference: "景品表示法（有利誤認）/ 職業安定法 募集情報の的確表示",
+      pattern: new RegExp(
+        `((?:月収|月給|年収|日給|日収|報酬|売上)\\s*${AMOUNT}(?:以上)?)\\s*(?:を|が|は)?\\s*(?:保証|確約|確実|約束|間違いなし)`
+      ),
+      suggestion: "保証は避け、実績値と前提条件（稼働日数・件数・エリア）を併記する",
+      rewrite: (match) => `${match[1]}の実績あり（稼働日数・件数により異なります）`,
+    },
+    {
+      id: "income-absolute",
+      category: "income_guarantee",
+      severity: "block",
+      description: "必ず・絶対に稼げると断定している",
+      reference: "景品表示法（有利誤認）",
+      pattern: /(?:必ず|絶対に?|確実に|100%)\s*(稼げ|儲か|収入が上が)(る|ります)(?!わけ|とは限ら)/,
+      suggestion: "断定を外し「〜を目指せる」「〜した人もいる」と表現する",
+      rewrite: (match) =>
+        match[1] === "収入が上が"
+          ? `収入アップを目指せ${match[2] === "る" ? "る" : "ます"}`
+          : `${match[1]}る可能性があ${match[2]}`,
+    },
+    {
+      id: "income-anyone",
+      category: "income_guarantee",
+      severity: "warn",
+      description: "誰でも高収入になれると受け取れる",
+      reference: "景品表示法（有利誤認）",
+      pattern: new RegExp(
+        `(?:誰でも|未経験でも|初心者でも)(?:簡単に|すぐに|楽に)?.{0,6}(?:月収|月|年収)\\s*${AMOUNT}`
+      ),
+      suggestion: "「誰でも」を避け、実績の分布や平均と条件を示す",
+    },
+    {
+      id: "income-unconditional-high-pay",
+      category: "income_guarantee",
+      severity: "warn",
+      description: "高収入を条件なしで示している",
+      reference: "職業安定法 募集情報の的確表示",
+      pattern: new RegExp(`(?:月収|年収|日給|日収)\\s*${AMOUNT}(?:以上)?\\s*(?:可能|稼げる|も夢じゃない)`),
+      unless: /(稼働|件数|エリア|条件|実績|により異なり|による)/,
+      suggestion: "収入例には前提（稼働日数・配達件数・経費控除前か）を併記する",
+      rewrite: (match) => `${match[0]}（稼働条件により異なります）`,
+    },
+
+    // ---- Tax / insurance assertions (税理士法 / 保険業法) ----
+    {
+      id: "tax-no-filing-needed",
+      category: "tax_insurance",
+      severity: "block",
+      description: "申告・納税が不要と断定している",
+      reference: "税理士法（個別の税務判断）",
+      pattern: /(確定申告|税金|所得税|住民税|消費税|インボイス).{0,15}(しなくていい|しなくて大丈夫|不要です|不要|払わなくていい|かからない|ゼロにできる)/,
+      unless: /(場合|条件|ケース|こともあり|かもしれ|確認|税理士|税務署)/,
+      suggestion: "条件によって異なる旨と、税務署・税理士への確認を添える",
+      rewrite: (match) => `${match[0]}（条件により異なるため、税務署・税理士にご確認ください）`,
+    },
+    {
+      id: "tax-all-deductible",
+      category: "tax_insurance",
+      severity: "warn",
+      description: "何でも経費になると受け取れる",
+      reference: "税理士法（個別の税務判断）",
+      pattern: /(全部|すべて|全て|何でも|なんでも)(経費で落とせ|経費になり|経費にでき|経費に)/,
+      suggestion: "事業との関連性が必要なことを示し、対象を限定する",
+      rewrite: () => "事業に関係する支出は経費にでき",
+    },
+    {
+      id: "tax-guaranteed-saving",
+      category: "tax_insurance",
+      severity: "warn",
+      description: "節税効果を断定している",
+      reference: "税理士法（個別の税務判断）",
+      pattern: /(節税|税金が安く|還付).{0,8}(確実|必ず|絶対|間違いなし)/,
+      suggestion: "効果は所得や控除の状況で変わる旨を添える",
+    },
+    {
+      id: "insurance-not-needed",
+      category: "tax_insurance",
+      severity: "block",
+      description: "保険加入が不要と断定している",
+      reference: "保険業法（募集規制）/ 貨物軽自動車運送事業の任意保険",
+      pattern: /(任意保険|貨物保険|保険|労災|国民健康保険|国民年金).{0,12}(入らなくていい|入らなくても大丈夫|不要|必要ない|いらない)/,
+      unless: /(場合|条件|ケース|確認|かもしれ)/,
+      suggestion: "加入の要否は契約・車両・補償内容で変わる旨と、保険会社・専門家への確認を添える",
+    },
+
+    // ---- Employment status (職業安定法) ----
+    {
+      id: "employment-contractor-as-employee",
+      category: "employment_status",
+      severity: "block",
+      description: "業務委託なのに雇用と誤認させる表現",
+      reference: "職業安定法 募集情報の的確表示（雇用形態の明示）",
+      pattern: /(正社員|社員登用|雇用保険|社会保険完備|有給休暇|有給|残業代|月給|時給|給与|給料|入社)/,
+      requires: /(業務委託|委託ドライバー|個人事業主|フリーランス)/,
+      unless: /(ではなく|ではありません|とは違い|と違って|との違い)/,
+      suggestion: "業務委託の場合は「報酬」「委託料」と表記し、雇用ではないことを明示する",
+      rewrite: (match) => CONTRACTOR_WORDING[match[1]] ?? match[1],
+    },
+    {
+      id: "employment-type-missing",
+      category: "employment_status",
+      severity: "warn",
+      description: "求人なのに雇用形態・契約形態が書かれていない",
+      reference: "職業安定法 労働条件等の明示",
+      pattern: /(募集中|募集します|急募|求人|ドライバー募集|メンバー募集|仲間を募集)/,
+      unless: /(委託|正社員|契約社員|アルバイト|パート|雇用形態|契約形態|個人事業主)/,
+      suggestion: "「業務委託」などの契約形態を明記する",
+    },
+  ],
+};
@@ -0,0 +1,99 @@
+import { config } from "@/lib/config";
+import { jpRecruitmentPack } from "./compliance-packs";
+
+export const complianceCategories = [
+  "income_guarantee", // 景品表示法: guaranteed or unconditional earnings
+  "tax_insurance", // 税理士法 / 保険業法: unqualified tax or insurance assertions
+  "employment_status", // 職業安定法: 業務委託 work advertised as employment, or no employment type
+] as const;
+export type ComplianceCategory = (typeof complianceCategories)[number];
+
+export interface ComplianceRule {
+  id: string;
+  category: ComplianceCategory;
+  severity: "block" | "warn"; // block: the draft is rejected; warn: scheduled with the finding
+  description: string;
+  reference: string; // the rule or guideline behind it
+  pattern: RegExp;
+  requires?: RegExp; // applies only when the content also matches this
+  unless?: RegExp; // does not apply when the content matches this
+  suggestion: string;
+  rewrite?: (match: RegExpMatchArray) => string; // softer wording for the matched span
+}
+
+export interface CompliancePack {
+  name: string;
+  rules: ComplianceRule[];
+}
+
+export interface ComplianceFinding {
+  ruleId: string;
+  category: ComplianceCategory;
+  severity: "block" | "warn";
+  description: string;
+  reference: string;
+  match: string;
+  suggestion: string;
+  rewrite?: string; // the matched span reworded
+}
+
+const packs = new Map<string, CompliancePack>([[jpRecruitmentPack.name, jpRecruitmentPack]]);
+
+/**
+ * Register a rule pack; it is checked once listed in COMPLIANCE_PACKS
+ */
+export function registerCompliancePack(pack: CompliancePack): void {
+  packs.set(pack.name, pack);
+}
+
+/**
+ * Rules of the packs enabled by COMPLIANCE_PACKS (unknown names are ignored)
+ */
+export function getComplianceRules(): ComplianceRule[] {
+  return config.compliancePacks.flatMap((name) => packs.get(name)?.rules ?? []);
+}
+
+/**
+ * Run the enabled compliance rules over content. Returns one finding per matching rule and,
+ * when any rule has a rewrite, the content with every matched span reworded.
+ */
+export function checkCompliance(
+  content: string,
+  rules: ComplianceRule[] = getComplianceRules()
+): { findings: ComplianceFinding[]; suggestedContent?: string } {
+  // Full-width digits and letters to half-width, so the patterns only list one form
+  const text = content.normalize("NFKC");
+  const findings: ComplianceFinding[] = [];
+  let suggestedContent = content;
+  let rewritten = false;
+
+  for (const rule of rules) {
+    if (rule.requires && !rule.requires.test(text)) continue;
+    if (rule.unless && rule.unless.test(text)) continue;
+
+    const match = text.match(rule.pattern);
+    if (!match) continue;
+
+    // A rewrite identical to the match offers nothing
+    const reworded = rule.rewrite?.(match);
+    const rewrite = reworded !== match[0] ? reworded : undefined;
+    findings.push({
+      ruleId: rule.id,
+      category: rule.category,
+      severity: rule.severity,
+      description: rule.description,
+      reference: rule.reference,
+      match: match[0],
+      suggestion: rule.suggestion,
+      rewrite,
+    });
+
+    // Spans only found after normalization (full-width variants) are left to the reviewer
+    if (rewrite !== undefined && suggestedContent.includes(match[0])) {
+      suggestedContent = suggestedContent.replace(match[0], rewrite);
+      rewritten = true;
+    }
+  }
+
+  return { findings, suggestedContent: rewritten ? suggestedContent : undefined };
+}
@@ -0,0 +1,267 @@
+import { db } from "@/lib/db";
+import { learningState } from "@/lib/db/schema";
+import { config } from "@/lib/config";
+import { eq } from "drizzle-orm";
+import { gaussianRandom, type Rng } from "@/lib/utils/random";
+
+export type BanditStrategy = "thompson" | "ucb" | "lin_ucb" | "lin_thompson";
+
+export const banditStrategies: readonly BanditStrategy[] = [
+  "thompson",
+  "ucb",
+  "lin_ucb",
+  "lin_thompson",
+];
+
+/**
+ * Context describing one candidate (or one published post) for the linear model
+ */
+export interface ArmContext {
+  format: string;
+  hookType: string;
+  topic: string;
+  lengthBucket?: string;
+  emojiDensity?: string;
+  timeBucket: string;
+  dayOfWeek: number;
+}
+
+/**
+ * Ridge regression state over one-hot features.
+ * Features are keyed by name so new topics extend the model instead of resetting it.
+ */
+export interface ContextualModel {
+  features: string[];
+  aInv: number[][];
+  b: number[];
+  updates: number;
+}
+
+// Ridge regularization (A starts as lambda * I)
+const RIDGE_LAMBDA = 1.0;
+
+/**
+ * Get the configured bandit strategy for a platform
+ */
+export function getBanditStrategy(platform: "x" | "threads"): BanditStrategy {
+  const strategy = platform === "x" ? config.banditStrategyX : config.banditStrategyThreads;
+  return banditStrategies.find((s) => s === strategy) || "thompson";
+}
+
+/**
+ * Build active one-hot feature keys for a context
+ */
+function getFeatureKeys(ctx: ArmContext): string[] {
+  const keys = [
+    "bias",
+    `format=${ctx.format}`,
+    `hook=${ctx.hookType}`,
+    `topic=${ctx.topic}`,
+    `time=${ctx.timeBucket}`,
+    `day=${ctx.dayOfWeek}`,
+  ];
+  // Length and emoji density are only known once they are chosen or observed
+  if (ctx.lengthBucket) keys.push(`length=${ctx.lengthBucket}`);
+  if (ctx.emojiDensity) keys.push(`emoji=${ctx.emojiDensity}`);
+  return keys;
+}
+
+/**
+ * Add unseen features to the model, returning the indices of the given keys
+ */
+function ensureFeatures(model: ContextualModel, keys: string[]): number[] {
+  const indices: number[] = [];
+
+  for (const key of keys) {
+    let index = model.features.indexOf(key);
+    if (index === -1) {
+      // A new feature is uncorrelated with the rest: extend A^-1 with 1/lambda on the diagonal
+      for (const row of model.aInv) row.push(0);
+      model.features.push(key);
+      index = model.features.length - 1;
+      const newRow = new Array(model.features.length).fill(0);
+      newRow[index] = 1 / RIDGE_LAMBDA;
+      model.aInv.push(newRow);
+      model.b.push(0);
+    }
+    indices.push(index);
+  }
+
+  return indices;
+}
+
+/**
+ * theta = A^-1 b
+ */
+function getTheta(model: ContextualModel): number[] {
+  return model.aInv.map((row) => row.reduce((sum, v, j) => sum + v * model.b[j], 0));
+}
+
+/**
+ * x^T A^-1 x for a one-hot x
+ */
+function getVariance(model: ContextualModel, indices: number[]): number {
+  let variance = 0;
+  for (const i of indices) {
+    for (const j of indices) {
+      variance += model.aInv[i][j];
+    }
+  }
+  return Math.max(0, variance);
+}
+
+/**
+ * Cholesky factor of a symmetric positive definite matrix (lower triangular)
+ */
+function cholesky(matrix: number[][]): number[][] {
+  const n = matrix.length;
+  const lower = Array.from({ length: n }, () => new Array(n).fill(0));
+
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j <= i; j++) {
+      let sum = matrix[i][j];
+      for (let k = 0; k < j; k++) {
+        sum -= lower[i][k] * lower[j][k];
+      }
+      if (i === j) {
+        // Guard against tiny negative pivots from accumulated rounding
+        lower[i][j] = Math.sqrt(Math.max(sum, 1e-12));
+      } else {
+        lower[i][j] = sum / lower[j][j];
+      }
+    }
+  }
+
+  return lower;
+}
+
+/**
+ * Create an empty model
+ */
+export function createContextualModel(): ContextualModel {
+  return { features: [], aInv: [], b: [], updates: 0 };
+}
+
+/**
+ * learning_state key of a model; account models are kept apart from the pooled one
+ */
+function getModelKey(platform: "x" | "threads", accountId?: number): string {
+  return accountId ? `contextual_bandit:${platform}:${accountId}` : `contextual_bandit:${platform}`;
+}
+
+/**
+ * Load model state for a platform (and account) from learning_state
+ */
+export async function loadContextualModel(
+  platform: "x" | "threads",
+  accountId?: number
+): Promise<ContextualModel> {
+  const state = await db.query.learningState.findFirst({
+    where: eq(learningState.key, getModelKey(platform, accountId)),
+  });
+
+  if (!state) return createContextualModel();
+  return state.value as ContextualModel;
+}
+
+/**
+ * Persist model state for a platform (and account) to learning_state
+ */
+export async function saveContextualModel(
+  platform: "x" | "threads",
+  model: ContextualModel,
+  accountId?: number
+): Promise<void> {
+  const key = getModelKey(platform, accountId);
+  const existing = await db.query.learningState.findFirst({
+    where: eq(learningState.key, key),
+  });
+
+  if (existing) {
+    await db
+      .update(learningState)
+      .set({ value: model, updatedAt: new Date() })
+      .where(eq(learningState.id, existing.id));
+  } else {
+    await db.insert(learningState).values({ key, value: model });
+  }
+}
+
+/**
+ * Score candidates with LinUCB or linear Thompson sampling.
+ * Unseen feature combinations still get a score from the shared per-feature weights.
+ */
+export function scoreContextualCandidates(
+  model: ContextualModel,
+  strategy: "lin_ucb" | "lin_thompson",
+  candidates: ArmContext[],
+  rng: Rng = Math.random
+): number[] {
+  const candidateIndices = candidates.map((ctx) => ensureFeatures(model, getFeatureKeys(ctx)));
+  const theta = getTheta(model);
+
+  if (strategy === "lin_ucb") {
+    return candidateIndices.map((indices) => {
+      const mean = indices.reduce((sum, i) => sum + theta[i], 0);
+      return mean + config.linUcbAlpha * Math.sqrt(getVariance(model, indices));
+    });
+  }
+
+  // Linear Thompson: sample theta ~ N(theta_hat, v^2 A^-1) once per selection
+  const lower = cholesky(model.aInv);
+  const z = theta.map(() => gaussianRandom(rng));
+  const sampledTheta = theta.map(
+    (t, i) => t + config.linThompsonScale * lower[i].reduce((sum, l, k) => sum + l * z[k], 0)
+  );
+
+  return candidateIndices.map((indices) => indices.reduce((sum, i) => sum + sampledTheta[i], 0));
+}
+
+/**
+ * Sherman-Morrison update of the model with one observed reward (0-1).
+ * `weight` < 1 adds a partial observation (A += w x x^T, b += w r x).
+ */
+export function updateContextualModel(
+  model: ContextualModel,
+  ctx: ArmContext,
+  normalizedReward: number,
+  weight: number = 1
+): void {
+  const indices = ensureFeatures(model, getFeatureKeys(ctx));
+  const n = model.features.length;
+
+  // u = A^-1 x
+  const u = new Array(n).fill(0);
+  for (let i = 0; i < n; i++) {
+    for (const j of indices) {
+      u[i] += model.aInv[i][j];
+    }
+  }
+  const denominator = 1 + weight * indices.reduce((sum, i) => sum + u[i], 0);
+
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < n; j++) {
+      model.aInv[i][j] -= (weight * u[i] * u[j]) / denominator;
+    }
+  }
+
+  for (const i of indices) {
+    model.b[i] += weight * normalizedReward;
+  }
+  model.updates++;
+}
+
+/**
+ * Shift an already-applied reward for the same context.
+ * A only depends on the features, so re-crediting just moves b.
+ */
+export function adjustContextualReward(
+  model: ContextualModel,
+  ctx: ArmContext,
+  normalizedRewardDelta: number
+): void {
+  const indices = ensureFeatures(model, getFeatureKeys(ctx));
+  for (const i of indices) {
+    model.b[i] += normalizedRewardDelta;
+  }
+}
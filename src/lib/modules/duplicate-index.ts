@@ -0,0 +1,252 @@
+import { db } from "@/lib/db";
+import {
+  minhashBands,
+  publishedPosts,
+  queuedPostStatuses,
+  scheduledPosts,
+  systemEvents,
+} from "@/lib/db/schema";
+import { config } from "@/lib/config";
+import { generateContentHash, generateMinHashSignature } from "@/lib/utils/minhash";
+import { and, eq, gte, inArray, lt, or } from "drizzle-orm";
+import crypto from "crypto";
+
+export type IndexedPostType = "published" | "scheduled";
+
+export interface DuplicateCandidate {
+  type: IndexedPostType;
+  id: number;
+  platform: string;
+  content: string;
+  postedAt: Date;
+  signature: number[];
+}
+
+/**
+ * Split a MinHash signature into LSH bands and hash each band into a bucket.
+ * Two signatures share a bucket in some band with high probability when they are similar;
+ * the band layout is part of the bucket so changing LSH_BANDS never mixes layouts.
+ */
+export function getBandBuckets(signature: number[]): Array<{ band: number; bucket: string }> {
+  const bands = Math.max(1, Math.min(config.lshBands, signature.length));
+  const rows = Math.floor(signature.length / bands);
+
+  return Array.from({ length: bands }, (_, band) => ({
+    band,
+    bucket: crypto
+      .createHash("sha1")
+      .update(`${bands}x${rows}:${signature.slice(band * rows, (band + 1) * rows).join(",")}`)
+      .digest("hex")
+      .slice(0, 32),
+  }));
+}
+
+/**
+ * Add a post's bands to the index (replacing any it already had)
+ */
+export async function indexPost(params: {
+  type: IndexedPostType;
+  id: number;
+  platform: string;
+  signature: number[];
+  postedAt: Date;
+}): Promise<void> {
+  await removeFromIndex(params.type, params.id);
+  await db.insert(minhashBands).values(
+    getBandBuckets(params.signature).map(({ band, bucket }) => ({
+      postType: params.type,
+      postId: params.id,
+      platform: params.platform,
+      band,
+      bucket,
+      postedAt: params.postedAt,
+    }))
+  );
+}
+
+/**
+ * Drop a post from the index (published, cancelled or failed scheduled posts)
+ */
+export async function removeFromIndex(type: IndexedPostType, id: number): Promise<void> {
+  await db
+    .delete(minhashBands)
+    .where(and(eq(minhashBands.postType, type), eq(minhashBands.postId, id)));
+}
+
+/**
+ * Posts sharing at least one LSH bucket with `signature` within the duplicate window:
+ * published posts, and scheduled posts still queued (pending or awaiting review)
+ */
+export async function findDuplicateCandidates(
+  signature: number[],
+  platform: string,
+  options: { excludeScheduledId?: number; windowDays?: number } = {}
+): Promise<DuplicateCandidate[]> {
+  const cutoff = new Date(
+    Date.now() - (options.windowDays ?? config.duplicateWindowDays) * 24 * 60 * 60 * 1000
+  );
+
+  const hits = await db
+    .selectDistinct({ postType: minhashBands.postType, postId: minhashBands.postId })
+    .from(minhashBands)
+    .where(
+      and(
+        eq(minhashBands.platform, platform),
+        gte(minhashBands.postedAt, cutoff),
+        or(
+          ...getBandBuckets(signature).map(({ band, bucket }) =>
+            and(eq(minhashBands.band, band), eq(minhashBands.bucket, bucket))
+          )
+        )
+      )
+    );
+
+  const publishedIds = hits.filter((h) => h.postType === "published").map((h) => h.postId);
+  const scheduledIds = hits
+    .filter((h) => h.postType === "scheduled" && h.postId !== options.excludeScheduledId)
+    .map((h) => h.postId);
+
+  const [published, scheduled] = await Promise.all([
+    publishedIds.length > 0
+      ? db.query.publishedPosts.findMany({ where: inArray(publishedPosts.id, publishedIds) })
+      : Promise.resolve([]),
+    scheduledIds.length > 0
+      ? db.query.scheduledPosts.findMany({
+          where: and(
+            inArray(scheduledPosts.id, scheduledIds),
+            inArray(scheduledPosts.status, queuedPostStatuses)
+          ),
+        })
+      : Promise.resolve([]),
+  ]);
+
+  return [
+    ...published.map((p) => ({
+      type: "published" as const,
+      id: p.id,
+      platform: p.platform,
+      content: p.content,
+      postedAt: p.publishedAt,
+      signature: p.minhashSignature || generateMinHashSignature(p.content),
+    })),
+    ...scheduled.map((s) => ({
+      type: "scheduled" as const,
+      id: s.id,
+      platform: s.platform,
+      content: s.content,
+      postedAt: s.scheduledFor,
+      signature: s.minhashSignature || generateMinHashSignature(s.content),
+    })),
+  ];
+}
+
+/**
+ * Keep the index in step with the posts: drop entries that left the duplicate window or
+ * belong to scheduled posts no longer queued, and index window posts that are missing
+ * (e.g. posts from before the index existed).
+ *
+ * With `rebuild`, every window post's content hash and signature are recomputed and
+ * re-indexed — needed after the normalization changes (e.g. DUPLICATE_MASK_NUMBERS).
+ */
+export async function maintainDuplicateIndex(
+  options: { rebuild?: boolean } = {}
+): Promise<{ removed: number; indexed: number }> {
+  const cutoff = new Date(Date.now() - config.duplicateWindowDays * 24 * 60 * 60 * 1000);
+  const results = { removed: 0, indexed: 0 };
+
+  const expired = await db
+    .delete(minhashBands)
+    .where(lt(minhashBands.postedAt, cutoff))
+    .returning({ postType: minhashBands.postType, postId: minhashBands.postId });
+  results.removed += new Set(expired.map((row) => `${row.postType}:${row.postId}`)).size;
+
+  const [published, scheduled, indexed] = await Promise.all([
+    db.query.publishedPosts.findMany({
+      where: gte(publishedPosts.publishedAt, cutoff),
+      columns: {
+        id: true,
+        platform: true,
+        content: true,
+        publishedAt: true,
+        minhashSignature: true,
+      },
+    }),
+    db.query.scheduledPosts.findMany({
+      where: inArray(scheduledPosts.status, queuedPostStatuses),
+      columns: {
+        id: true,
+        platform: true,
+        content: true,
+        scheduledFor: true,
+        minhashSignature: true,
+      },
+    }),
+    db
+      .selectDistinct({ postType: minhashBands.postType, postId: minhashBands.postId })
+      .from(minhashBands),
+  ]);
+
+  const indexedKeys = new Set(
+    options.rebuild ? [] : indexed.map((row) => `${row.postType}:${row.postId}`)
+  );
+  const queuedIds = new Set(scheduled.map((s) => s.id));
+
+  // Scheduled posts that were published, cancelled or failed
+  for (const row of indexed) {
+    if (row.postType === "scheduled" && !queuedIds.has(row.postId)) {
+      await removeFromIndex("scheduled", row.postId);
+      results.removed++;
+    }
+  }
+
+  for (const post of published) {
+    if (indexedKeys.has(`published:${post.id}`)) continue;
+    let signature = post.minhashSignature;
+    if (options.rebuild || !signature) {
+      signature = generateMinHashSignature(post.content);
+      await db
+        .update(publishedPosts)
+        .set({ contentHash: generateContentHash(post.content), minhashSignature: signature })
+        .where(eq(publishedPosts.id, post.id));
+    }
+    await indexPost({
+      type: "published",
+      id: post.id,
+      platform: post.platform,
+      signature,
+      postedAt: post.publishedAt,
+    });
+    results.indexed++;
+  }
+
+  for (const post of scheduled) {
+    if (indexedKeys.has(`scheduled:${post.id}`)) continue;
+    let signature = post.minhashSignature;
+    if (options.rebuild || !signature) {
+      signature = generateMinHashSignature(post.content);
+      await db
+        .update(scheduledPosts)
+        .set({ contentHash: generateContentHash(post.content), minhashSignature: signature })
+        .where(eq(scheduledPosts.id, post.id));
+    }
+    await indexPost({
+      type: "scheduled",
+      id: post.id,
+      platform: post.platform,
+      signature,
+      postedAt: post.scheduledFor,
+    });
+    results.indexed++;
+  }
+
+  if (results.removed > 0 || results.indexed > 0) {
+    await db.insert(systemEvents).values({
+      eventType: "duplicate_index_maintained",
+      severity: "info",
+      message: `Duplicate index: ${results.indexed} posts indexed, ${results.removed} removed`,
+      metadata: results,
+    });
+  }
+
+  return results;
+}
@@ -0,0 +1,182 @@
+import { db } from "@/lib/db";
+import { learningState, metrics, publishedPosts } from "@/lib/db/schema";
+import { config } from "@/lib/config";
+import { eq, and, gte, inArray } from "drizzle-orm";
+import {
+  calculateReward,
+  getRewardKey,
+  getRewardSignals,
+  type RewardDefinition,
+} from "./reward";
+
+// Metric window the provisional credit is made from
+export const EARLY_WINDOW_HOURS = 6;
+
+// Horizons predicted from the early window
+const HORIZONS = [24, 48] as const;
+type Horizon = (typeof HORIZONS)[number];
+
+// History used to fit the mapping
+const HISTORY_DAYS = 60;
+
+/**
+ * Least-squares fit of reward(horizon) = intercept + slope * reward(6h)
+ */
+interface HorizonFit {
+  intercept: number;
+  slope: number;
+  residualStd: number;
+  r2: number;
+  samples: number;
+}
+
+export interface EarlyRewardModel {
+  platform: "x" | "threads";
+  rewardVersion: string;
+  horizons: Partial<Record<Horizon, HorizonFit>>;
+  fittedAt: string;
+}
+
+/**
+ * Simple linear regression over (early, final) reward pairs
+ */
+function fitLinear(pairs: Array<[number, number]>): HorizonFit | undefined {
+  const n = pairs.length;
+  if (n < 2) return undefined;
+
+  const meanX = pairs.reduce((sum, [x]) => sum + x, 0) / n;
+  const meanY = pairs.reduce((sum, [, y]) => sum + y, 0) / n;
+
+  let sxx = 0;
+  let sxy = 0;
+  let syy = 0;
+  for (const [x, y] of pairs) {
+    sxx += (x - meanX) * (x - meanX);
+    sxy += (x - meanX) * (y - meanY);
+    syy += (y - meanY) * (y - meanY);
+  }
+
+  const slope = sxx > 0 ? sxy / sxx : 0;
+  const intercept = meanY - slope * meanX;
+  const residualSq = pairs.reduce((sum, [x, y]) => {
+    const residual = y - (intercept + slope * x);
+    return sum + residual * residual;
+  }, 0);
+
+  return {
+    intercept,
+    slope,
+    residualStd: Math.sqrt(residualSq / Math.max(1, n - 2)),
+    r2: syy > 0 ? Math.max(0, 1 - residualSq / syy) : 0,
+    samples: n,
+  };
+}
+
+/**
+ * Learn how 6h rewards map to 24h and 48h rewards from our own published posts,
+ * and persist the fit to learning_state for inspection
+ */
+export async function fitEarlyRewardModel(
+  platform: "x" | "threads",
+  rewardDefinition: RewardDefinition
+): Promise<EarlyRewardModel> {
+  const cutoff = new Date(Date.now() - HISTORY_DAYS * 24 * 60 * 60 * 1000);
+
+  const posts = await db.query.publishedPosts.findMany({
+    where: and(eq(publishedPosts.platform, platform), gte(publishedPosts.publishedAt, cutoff)),
+    columns: { id: true },
+  });
+  const postIds = posts.map((p) => p.id);
+
+  const rows =
+    postIds.length > 0
+      ? await db.query.metrics.findMany({
+          where: and(
+            inArray(metrics.publishedPostId, postIds),
+            inArray(metrics.hoursAfterPublish, [EARLY_WINDOW_HOURS, ...HORIZONS])
+          ),
+        })
+      : [];
+
+  // post -> window -> reward
+  const rewards = new Map<number, Map<number, number>>();
+  for (const row of rows) {
+    const byWindow = rewards.get(row.publishedPostId) || new Map<number, number>();
+    byWindow.set(
+      row.hoursAfterPublish,
+      calculateReward(getRewardSignals(row), platform, rewardDefinition)
+    );
+    rewards.set(row.publishedPostId, byWindow);
+  }
+
+  const horizons: EarlyRewardModel["horizons"] = {};
+  for (const horizon of HORIZONS) {
+    const pairs: Array<[number, number]> = [];
+    for (const byWindow of rewards.values()) {
+      const early = byWindow.get(EARLY_WINDOW_HOURS);
+      const final = byWindow.get(horizon);
+      if (early !== undefined && final !== undefined) pairs.push([early, final]);
+    }
+    const fit = fitLinear(pairs);
+    if (fit) horizons[horizon] = fit;
+  }
+
+  const model: EarlyRewardModel = {
+    platform,
+    rewardVersion: getRewardKey(rewardDefinition),
+    horizons,
+    fittedAt: new Date().toISOString(),
+  };
+
+  const key = `early_reward:${platform}`;
+  const existing = await db.query.learningState.findFirst({
+    where: eq(learningState.key, key),
+  });
+  if (existing) {
+    await db
+      .update(learningState)
+      .set({ value: model, updatedAt: new Date() })
+      .where(eq(learningState.id, existing.id));
+  } else {
+    await db.insert(learningState).values({ key, value: model });
+  }
+
+  return model;
+}
+
+/**
+ * The last fit for a platform, as stored in learning_state (null before the first learning run)
+ */
+export async function loadEarlyRewardModel(
+  platform: "x" | "threads"
+): Promise<EarlyRewardModel | null> {
+  const state = await db.query.learningState.findFirst({
+    where: eq(learningState.key, `early_reward:${platform}`),
+  });
+  return (state?.value as EarlyRewardModel | undefined) ?? null;
+}
+
+/**
+ * Predict the reward at `horizon` from a 6h reward. Provisional credits use the 24h fit;
+ * the 48h fit is kept alongside it for inspection.
+ * The weight (0 to EARLY_REWARD_MAX_WEIGHT, scaled by R²) is how much a provisional
+ * credit counts compared to a real observation; undefined while the fit is too thin.
+ */
+export function predictReward(
+  model: EarlyRewardModel,
+  earlyReward: number,
+  horizon: Horizon = 24
+): { reward: number; weight: number } | undefined {
+  if (config.earlyRewardDisabled) return undefined;
+
+  const fit = model.horizons[horizon];
+  if (!fit || fit.samples < config.earlyRewardMinSamples) return undefined;
+
+  const weight = config.earlyRewardMaxWeight * Math.min(1, Math.max(0, fit.r2));
+  if (weight <= 0) return undefined;
+
+  return {
+    reward: Math.max(0, fit.intercept + fit.slope * earlyReward),
+    weight,
+  };
+}
@@ -1,11 +1,42 @@
 import { db } from "@/lib/db";
-import { scheduledPosts, publishedPosts, systemEvents } from "@/lib/db/schema";
+import { scheduledPosts, publishedPosts, queuedPostStatuses, systemEvents } from "@/lib/db/schema";
 import { generatePost } from "@/lib/clients/openai-client";
-import { selectArm } from "./bandit";
-import { runAllChecks, prepareContentForStorage } from "./policy-engine";
+import { selectArm, relabelArmStyle } from "./bandit";
+import {
+  createCachedBanditStore,
+  loadAccountBanditStore,
+  type BanditStore,
+} from "./bandit-store";
+import { runAllChecks, prepareContentForStorage, getRateLimits } from "./policy-engine";
+import { checkKillSwitch } from "./kill-switch";
+import { indexPost } from "./duplicate-index";
+import type { ComplianceFinding } from "./compliance";
+import { isReviewRequired } from "./review-mode";
+import {
+  countPostsByLocalDate,
+  findNextAllowedTime,
+  getLocalTime,
+  getPostingWindow,
+} from "./posting-window";
 import { config } from "@/lib/config";
-import { eq, desc, gte, and } from "drizzle-orm";
+import { eq, desc, gte, and, inArray, isNull } from "drizzle-orm";
 import { addMinutes, addHours } from "date-fns";
+import { classifyEmojiDensity, classifyLengthBucket } from "@/lib/utils/text-features";
+
+export interface DraftPost {
+  content: string;
+  format: string;
+  hookType: string;
+  topic: string;
+  lengthBucket: string;
+  emojiDensity: string;
+  timeBucket: string;
+  dayOfWeek: number;
+  armId: string;
+  selectionLogId?: number;
+  safetyPending: boolean; // LLM safety check failed; held until it succeeds (fail-closed)
+  complianceFindings: ComplianceFinding[]; // non-blocking findings to review
+}
 
 /**
  * Get recent post contents for avoiding repetition
@@ -25,7 +56,7 @@ async function getRecentPostContents(
     db.query.scheduledPosts.findMany({
       where: and(
         eq(scheduledPosts.platform, platform),
-        eq(scheduledPosts.status, "pending")
+        inArray(scheduledPosts.status, queuedPostStatuses)
       ),
       orderBy: desc(scheduledPosts.createdAt),
       limit,
@@ -36,46 +67,83 @@ async function getRecentPostContents(
 }
 
 /**
- * Generate a draft post
+ * Generate post content with a timeout
+ */
+async function generateWithTimeout(
+  params: Parameters<typeof generatePost>[0]
+): ReturnType<typeof generatePost> {
+  const generatePromise = generatePost(params);
+
+  // Add timeout (60 seconds for OpenAI API)
+  const timeoutPromise = new Promise<never>((_, reject) => {
+    setTimeout(() => reject(new Error("Content generation timeout (60s)")), 60000);
+  });
+
+  return Promise.race([generatePromise, timeoutPromise]);
+}
+
+/**
+ * Generate a draft post for the slot it will be published in.
+ * Content that misses the arm's length/emoji buckets is regenerated, then re-labelled.
  */
 export async function generateDraft(
-  platform: "x" | "threads"
+  platform: "x" | "threads",
+  options: { scheduledFor?: Date; store?: BanditStore; accountId?: number } = {}
 ): Promise<{
   success: boolean;
-  post?: {
-    content: string;
-    format: string;
-    hookType: string;
-    topic: string;
-    armId: string;
-  };
+  post?: DraftPost;
   error?: string;
 }> {
   try {
-    // Select arm using bandit
-    const arm = await selectArm(platform);
+    // Select arm using bandit, conditioned on the slot's time bucket and weekday
+    const arm = await selectArm(platform, {
+      publishAt: options.scheduledFor,
+      store: options.store,
+    });
 
     // Get recent posts for context
     const recentPosts = await getRecentPostContents(platform);
 
-    // Generate content with timeout
-    const generatePromise = generatePost({
+    // Generate content, regenerating when it misses the arm's style
+    const generateParams = {
       platform,
       format: arm.format,
       hookType: arm.hookType,
       topic: arm.topic,
+      lengthBucket: arm.lengthBucket,
+      emojiDensity: arm.emojiDensity,
       recentPosts,
-    });
-
-    // Add timeout (60 seconds for OpenAI API)
-    const timeoutPromise = new Promise<never>((_, reject) => {
-      setTimeout(() => reject(new Error("Content generation timeout (60s)")), 60000);
-    });
-
-    const generated = await Promise.race([generatePromise, timeoutPromise]);
+    };
+    let generated: Awaited<ReturnType<typeof generatePost>>;
+    let style: { lengthBucket: string; emojiDensity: string };
+    let styleRetries = 0;
+    const matchesArm = () =>
+      style.lengthBucket === arm.lengthBucket && style.emojiDensity === arm.emojiDensity;
+
+    do {
+      generated = await generateWithTimeout(generateParams);
+      style = {
+        lengthBucket: classifyLengthBucket(generated.content, platform),
+        emojiDensity: classifyEmojiDensity(generated.content),
+      };
+    } while (!matchesArm() && styleRetries++ < config.styleMaxRetries);
+
+    // Still off: credit the arm the post actually belongs to
+    let armId = arm.armId;
+    if (!matchesArm()) {
+      armId = relabelArmStyle(arm.armId, style);
+      await db.insert(systemEvents).values({
+        eventType: "generate_style_relabelled",
+        severity: "info",
+        message: `Generated content missed its style (${arm.lengthBucket}/${arm.emojiDensity}), re-labelled as ${style.lengthBucket}/${style.emojiDensity}`,
+        metadata: { platform, selectedArmId: arm.armId, armId },
+      });
+    }
 
     // Run policy checks
-    const checks = await runAllChecks(generated.content, platform);
+    const checks = await runAllChecks(generated.content, platform, options.accountId, {
+      scheduledFor: options.scheduledFor,
+    });
 
     if (!checks.passed) {
       const reasons = checks.failures.map((f) => f.reason).join(", ");
@@ -95,7 +163,13 @@ export async function generateDraft(
         format: arm.format,
         hookType: arm.hookType,
         topic: arm.topic,
-        armId: arm.armId,
+        ...style,
+        timeBucket: arm.timeBucket,
+        dayOfWeek: arm.dayOfWeek,
+        armId,
+        selectionLogId: arm.selectionLogId,
+        safetyPending: checks.safetyHeld,
+        complianceFindings: checks.complianceFindings,
       },
     };
   } catch (error) {
@@ -105,11 +179,59 @@ export async function generateDraft(
 }
 
 /**
- * Generate and schedule multiple posts
+ * Store a draft for its slot. Drafts of a platform / account in review mode wait for a
+ * reviewer (awaiting_review); others go straight to the publishing queue (pending).
+ */
+export async function scheduleDraft(
+  platform: "x" | "threads",
+  post: DraftPost,
+  slot: Date,
+  accountId?: number
+): Promise<{ id: number; status: string }> {
+  const { contentHash, minhashSignature } = prepareContentForStorage(post.content);
+  const status = (await isReviewRequired(platform, accountId)) ? "awaiting_review" : "pending";
+
+  const [scheduled] = await db.insert(scheduledPosts).values({
+    platform,
+    accountId: accountId ?? null,
+    content: post.content,
+    scheduledFor: slot,
+    armId: post.armId,
+    format: post.format,
+    hookType: post.hookType,
+    topic: post.topic,
+    timeBucket: post.timeBucket,
+    dayOfWeek: post.dayOfWeek,
+    lengthBucket: post.lengthBucket,
+    emojiDensity: post.emojiDensity,
+    selectionLogId: post.selectionLogId,
+    safetyPending: post.safetyPending,
+    complianceFindings: post.complianceFindings,
+    status,
+    contentHash,
+    minhashSignature,
+  }).returning({ id: scheduledPosts.id, status: scheduledPosts.status });
+
+  // Queued posts count as duplicates for later drafts too
+  await indexPost({
+    type: "scheduled",
+    id: scheduled.id,
+    platform,
+    signature: minhashSignature,
+    postedAt: slot,
+  });
+
+  return scheduled;
+}
+
+/**
+ * Generate and schedule multiple posts.
+ * With `accountId`, arms are chosen from that account's learning state and the posts belong to it.
  */
 export async function generateAndSchedule(
   platform: "x" | "threads",
-  count: number = 3
+  count: number = 3,
+  options: { accountId?: number } = {}
 ): Promise<{
   scheduled: number;
   failed: number;
@@ -121,10 +243,31 @@ export async function generateAndSchedule(
     errors: [] as string[],
   };
 
-  // Get next available scheduling slot
-  let nextSlot = await getNextScheduleSlot(platform);
+  // Nothing to generate for a paused platform / account
+  const killSwitch = await checkKillSwitch({ platform, accountId: options.accountId });
+  if (killSwitch.active) {
+    results.errors.push(killSwitch.reason);
+    return results;
+  }
 
-  for (let i = 0; i < count; i++) {
+  // Plan publish times first so each arm is chosen for its own slot
+  const slots = await planScheduleSlots(platform, count, options.accountId);
+  if (slots.length < count) {
+    const message = `No allowed posting slot for ${count - slots.length}/${count} posts (posting window)`;
+    results.errors.push(message);
+    await db.insert(systemEvents).values({
+      eventType: "generate_no_slot",
+      severity: "warn",
+      message: `${message} on ${platform}`,
+      metadata: { platform, accountId: options.accountId, requested: count, planned: slots.length },
+    });
+  }
+
+  // Arm stats, weights and models are read once for the whole batch, retries included
+  const store = createCachedBanditStore(await loadAccountBanditStore(options.accountId));
+
+  for (let i = 0; i < slots.length; i++) {
+    const slot = slots[i];
     let retryCount = 0;
     const maxRetries = 2;
     let success = false;
@@ -148,7 +291,11 @@ export async function generateAndSchedule(
           });
         }
 
-        const result = await generateDraft(platform);
+        const result = await generateDraft(platform, {
+          scheduledFor: slot,
+          store,
+          accountId: options.accountId,
+        });
 
         if (!result.success || !result.post) {
           if (retryCount < maxRetries) {
@@ -170,27 +317,11 @@ export async function generateAndSchedule(
           break; // Exit retry loop
         }
 
-        const { contentHash, minhashSignature } = prepareContentForStorage(result.post.content);
-
-        // Schedule the post
-        await db.insert(scheduledPosts).values({
-          platform,
-          content: result.post.content,
-          scheduledFor: nextSlot,
-          armId: result.post.armId,
-          format: result.post.format,
-          hookType: result.post.hookType,
-          topic: result.post.topic,
-          status: "pending",
-          contentHash,
-        });
+        const scheduled = await scheduleDraft(platform, result.post, slot, options.accountId);
 
         results.scheduled++;
         success = true;
 
-        // Move to next slot
-        nextSlot = addMinutes(nextSlot, config.minGapMinutes + Math.floor(Math.random() * 30));
-        
         // Log success
         await db.insert(systemEvents).values({
           eventType: "generate_post_success",
@@ -200,7 +331,8 @@ export async function generateAndSchedule(
             platform, 
             index: i + 1, 
             armId: result.post.armId,
-            scheduledFor: nextSlot.toISOString(),
+            scheduledFor: slot.toISOString(),
+            status: scheduled.status,
           },
         });
       } catch (error) {
@@ -242,17 +374,28 @@ export async function generateAndSchedule(
 }
 
 /**
- * Get next available scheduling slot
+ * Get next available scheduling slot for an account (its own posts and minimum gap)
  */
-async function getNextScheduleSlot(platform: "x" | "threads"): Promise<Date> {
+async function getNextScheduleSlot(
+  platform: "x" | "threads",
+  accountId: number | undefined,
+  minGapMinutes: number
+): Promise<Date> {
   // Get latest scheduled or published post
   const [latestScheduled, latestPublished] = await Promise.all([
     db.query.scheduledPosts.findFirst({
-      where: and(eq(scheduledPosts.platform, platform), eq(scheduledPosts.status, "pending")),
+      where: and(
+        eq(scheduledPosts.platform, platform),
+        inArray(scheduledPosts.status, queuedPostStatuses),
+        accountId ? eq(scheduledPosts.accountId, accountId) : isNull(scheduledPosts.accountId)
+      ),
       orderBy: desc(scheduledPosts.scheduledFor),
     }),
     db.query.publishedPosts.findFirst({
-      where: eq(publishedPosts.platform, platform),
+      where: and(
+        eq(publishedPosts.platform, platform),
+        accountId ? eq(publishedPosts.accountId, accountId) : isNull(publishedPosts.accountId)
+      ),
       orderBy: desc(publishedPosts.publishedAt),
     }),
   ]);
@@ -262,13 +405,45 @@ async function getNextScheduleSlot(platform: "x" | "threads"): Promise<Date> {
     latestPublished?.publishedAt?.getTime() || 0
   );
 
-  const minNextTime = latestTime + config.minGapMinutes * 60 * 1000;
+  const minNextTime = latestTime + minGapMinutes * 60 * 1000;
   const now = Date.now();
 
   // Ensure it's in the future with minimum gap
   return new Date(Math.max(now + 5 * 60 * 1000, minNextTime));
 }
 
+/**
+ * Plan publish times for a batch: the next free slot, then minimum gap plus jitter.
+ * Slots falling outside the posting window move to its next opening (jittered within the hour);
+ * fewer slots than requested come back when the window has no room left.
+ */
+async function planScheduleSlots(
+  platform: "x" | "threads",
+  count: number,
+  accountId?: number
+): Promise<Date[]> {
+  const slots: Date[] = [];
+  const { minGapMinutes } = await getRateLimits(platform, accountId);
+  let nextSlot = await getNextScheduleSlot(platform, accountId, minGapMinutes);
+  const window = await getPostingWindow(platform, accountId);
+  const postsByDate = await countPostsByLocalDate(platform, accountId, window, nextSlot);
+
+  for (let i = 0; i < count; i++) {
+    let slot = findNextAllowedTime(window, nextSlot, postsByDate);
+    if (!slot) break;
+    if (slot.getTime() !== nextSlot.getTime()) {
+      slot = addMinutes(slot, Math.floor(Math.random() * 30));
+    }
+
+    slots.push(slot);
+    const { dateKey } = getLocalTime(slot, window.timezone);
+    postsByDate.set(dateKey, (postsByDate.get(dateKey) || 0) + 1);
+    nextSlot = addMinutes(slot, minGapMinutes + Math.floor(Math.random() * 30));
+  }
+
+  return slots;
+}
+
 /**
  * Get optimal posting times based on timing priors
  */
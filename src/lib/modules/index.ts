@@ -8,3 +8,20 @@ export * from "./metrics-collector";
 export * from "./bandit";
 export * from "./policy-engine";
 
+export * from "./contextual-bandit";
+export * from "./reward";
+export * from "./learning-ledger";
+export * from "./offline-evaluator";
+export * from "./bandit-store";
+export * from "./early-reward";
+export * from "./bandit-snapshots";
+export * from "./topic-miner";
+export * from "./kill-switch";
+export * from "./posting-window";
+export * from "./duplicate-index";
+export * from "./plagiarism-index";
+export * from "./ng-expressions";
+export * from "./local-safety";
+export * from "./compliance";
+export * from "./review-mode";
+export * from "./review-queue";
@@ -0,0 +1,177 @@
+import { db } from "@/lib/db";
+import { learningState, systemEvents } from "@/lib/db/schema";
+import { config } from "@/lib/config";
+import { eq } from "drizzle-orm";
+
+export const killSwitchScopes = ["global", "platform", "account"] as const;
+export type KillSwitchScope = (typeof killSwitchScopes)[number];
+
+export interface KillSwitchTarget {
+  scope: KillSwitchScope;
+  platform?: "x" | "threads"; // scope "platform"
+  accountId?: number; // scope "account"
+}
+
+export interface KillSwitchPause extends KillSwitchTarget {
+  reason: string | null;
+  activatedAt: string;
+  until: string | null; // lifts automatically after this time; null until deactivated
+}
+
+// learning_state "kill_switch". `active` is the original dashboard toggle (a global pause).
+interface KillSwitchState {
+  active?: boolean;
+  pauses?: KillSwitchPause[];
+}
+
+export type KillSwitchStatus =
+  | { active: false }
+  | { active: true; reason: string; pause?: KillSwitchPause };
+
+const STATE_KEY = "kill_switch";
+
+function isSameTarget(a: KillSwitchTarget, b: KillSwitchTarget): boolean {
+  return (
+    a.scope === b.scope &&
+    (a.scope !== "platform" || a.platform === b.platform) &&
+    (a.scope !== "account" || a.accountId === b.accountId)
+  );
+}
+
+function describeTarget(target: KillSwitchTarget): string {
+  if (target.scope === "platform") return `platform ${target.platform}`;
+  if (target.scope === "account") return `account ${target.accountId}`;
+  return "global";
+}
+
+async function saveState(state: KillSwitchState): Promise<void> {
+  const existing = await db.query.learningState.findFirst({
+    where: eq(learningState.key, STATE_KEY),
+  });
+
+  if (existing) {
+    await db
+      .update(learningState)
+      .set({ value: state, updatedAt: new Date() })
+      .where(eq(learningState.id, existing.id));
+  } else {
+    await db.insert(learningState).values({ key: STATE_KEY, value: state });
+  }
+}
+
+/**
+ * Pauses in effect. Timed pauses past their end are lifted (and logged) here.
+ */
+export async function getActivePauses(now: Date = new Date()): Promise<KillSwitchPause[]> {
+  const row = await db.query.learningState.findFirst({
+    where: eq(learningState.key, STATE_KEY),
+  });
+  const state = (row?.value as KillSwitchState | undefined) || {};
+
+  const pauses = [...(state.pauses || [])];
+  if (state.active && !pauses.some((p) => p.scope === "global")) {
+    // Toggle saved before scoped pauses existed
+    pauses.push({
+      scope: "global",
+      reason: null,
+      activatedAt: (row?.updatedAt || now).toISOString(),
+      until: null,
+    });
+  }
+
+  const expired = pauses.filter((p) => p.until && new Date(p.until) <= now);
+  const active = pauses.filter((p) => !expired.includes(p));
+
+  if (expired.length > 0) {
+    await saveState({ active: active.some((p) => p.scope === "global"), pauses: active });
+    for (const pause of expired) {
+      await db.insert(systemEvents).values({
+        eventType: "kill_switch_expired",
+        severity: "info",
+        message: `Kill switch lifted (${describeTarget(pause)}): pause ended`,
+        metadata: { ...pause },
+      });
+    }
+  }
+
+  return active;
+}
+
+/**
+ * Whether work for a platform / account is paused.
+ * KILL_SWITCH=true and a global pause stop everything; a platform or account pause only
+ * stops that platform or account. Without a platform or account only global pauses apply.
+ */
+export async function checkKillSwitch(
+  target: { platform?: "x" | "threads"; accountId?: number | null } = {}
+): Promise<KillSwitchStatus> {
+  if (config.killSwitch) {
+    return { active: true, reason: "Kill switch is active (KILL_SWITCH)" };
+  }
+
+  const pause = (await getActivePauses()).find(
+    (p) =>
+      p.scope === "global" ||
+      (p.scope === "platform" && p.platform === target.platform) ||
+      (p.scope === "account" && !!target.accountId && p.accountId === target.accountId)
+  );
+  if (!pause) return { active: false };
+
+  return {
+    active: true,
+    reason: `Kill switch is active (${describeTarget(pause)}${pause.reason ? `: ${pause.reason}` : ""})`,
+    pause,
+  };
+}
+
+/**
+ * Pause a scope, replacing any pause already on it.
+ * `until` makes the pause lift by itself; without it, it lasts until deactivated.
+ */
+export async function activateKillSwitch(
+  target: KillSwitchTarget,
+  options: { reason?: string; until?: Date } = {}
+): Promise<KillSwitchPause> {
+  const now = new Date();
+  const pauses = (await getActivePauses(now)).filter((p) => !isSameTarget(p, target));
+
+  const pause: KillSwitchPause = {
+    scope: target.scope,
+    platform: target.scope === "platform" ? target.platform : undefined,
+    accountId: target.scope === "account" ? target.accountId : undefined,
+    reason: options.reason || null,
+    activatedAt: now.toISOString(),
+    until: options.until ? options.until.toISOString() : null,
+  };
+  pauses.push(pause);
+  await saveState({ active: pauses.some((p) => p.scope === "global"), pauses });
+
+  await db.insert(systemEvents).values({
+    eventType: "kill_switch_activated",
+    severity: "warn",
+    message: `Kill switch activated (${describeTarget(pause)})${pause.until ? ` until ${pause.until}` : ""}${pause.reason ? `: ${pause.reason}` : ""}`,
+    metadata: { ...pause },
+  });
+
+  return pause;
+}
+
+/**
+ * Lift the pause on a scope. Returns false if it was not paused.
+ */
+export async function deactivateKillSwitch(target: KillSwitchTarget): Promise<boolean> {
+  const pauses = await getActivePauses();
+  const remaining = pauses.filter((p) => !isSameTarget(p, target));
+  if (remaining.length === pauses.length) return false;
+
+  await saveState({ active: remaining.some((p) => p.scope === "global"), pauses: remaining });
+
+  await db.insert(systemEvents).values({
+    eventType: "kill_switch_deactivated",
+    severity: "info",
+    message: `Kill switch deactivated (${describeTarget(target)})`,
+    metadata: { ...target },
+  });
+
+  return true;
+}
@@ -0,0 +1,96 @@
+import { db } from "@/lib/db";
+import { learningLedger, type LearningLedgerEntry } from "@/lib/db/schema";
+import { eq, and, inArray } from "drizzle-orm";
+
+export type LedgerTarget = "arm" | "contextual";
+
+// Learning runs only (re-)credit posts published this recently; older entries no longer change
+export const LEARNING_LOOKBACK_DAYS = 7;
+
+/**
+ * Get ledger entries for a set of posts at one metric window, grouped by post
+ */
+export async function getLedgerEntries(
+  publishedPostIds: number[],
+  hoursAfterPublish: number
+): Promise<Map<number, LearningLedgerEntry[]>> {
+  const byPost = new Map<number, LearningLedgerEntry[]>();
+  if (publishedPostIds.length === 0) return byPost;
+
+  const entries = await db.query.learningLedger.findMany({
+    where: and(
+      inArray(learningLedger.publishedPostId, publishedPostIds),
+      eq(learningLedger.hoursAfterPublish, hoursAfterPublish)
+    ),
+  });
+
+  for (const entry of entries) {
+    const list = byPost.get(entry.publishedPostId) || [];
+    list.push(entry);
+    byPost.set(entry.publishedPostId, list);
+  }
+
+  return byPost;
+}
+
+/**
+ * Find the entry for one learner among a post's entries (pooled learner when no accountId)
+ */
+export function findLedgerEntry(
+  entries: LearningLedgerEntry[],
+  target: LedgerTarget,
+  armId: string,
+  accountId?: number
+): LearningLedgerEntry | undefined {
+  return entries.find(
+    (e) =>
+      e.target === target && e.armId === armId && (e.accountId ?? null) === (accountId ?? null)
+  );
+}
+
+/**
+ * Claim a post × window for a learner before crediting it. Returns false when the entry
+ * already exists (an overlapping or earlier run claimed it), in which case nothing is credited.
+ */
+export async function recordCredit(params: {
+  publishedPostId: number;
+  hoursAfterPublish: number;
+  target: LedgerTarget;
+  armId: string;
+  accountId?: number;
+  rewardVersion: string;
+  reward: number;
+  normalizedReward: number;
+  weight?: number;
+}): Promise<boolean> {
+  const inserted = await db
+    .insert(learningLedger)
+    .values(params)
+    .onConflictDoNothing()
+    .returning({ id: learningLedger.id });
+  return inserted.length > 0;
+}
+
+/**
+ * Mark provisional credits as replaced by the final credit
+ */
+export async function markReconciled(entryIds: number[]): Promise<void> {
+  if (entryIds.length === 0) return;
+  await db
+    .update(learningLedger)
+    .set({ reconciledAt: new Date(), updatedAt: new Date() })
+    .where(inArray(learningLedger.id, entryIds));
+}
+
+/**
+ * Move an existing credit to a new reward version after it has been re-applied
+ */
+export async function updateCredit(
+  entryId: number,
+  params: { rewardVersion: string; reward: number; normalizedReward: number }
+): Promise<void> {
+  await db
+    .update(learningLedger)
+    .set({ ...params, updatedAt: new Date() })
+    .where(eq(learningLedger.id, entryId));
+}
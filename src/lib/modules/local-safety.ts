@@ -0,0 +1,114 @@
+/**
+ * Deterministic, rule-based safety scoring. Used in place of the LLM check
+ * (checkContentSafety) when that fails, so content is never published unchecked.
+ */
+
+export interface LocalSafetyResult {
+  isSpam: boolean;
+  ragebaitScore: number; // 0-1, compared against RAGEBAIT_SCORE_THRESHOLD like the LLM score
+  issues: string[];
+  violations: string[]; // rules that block the post outright
+  scores: {
+    ragebait: number;
+    incomeClaims: number;
+    ctas: number;
+    defamation: number;
+  };
+}
+
+interface WeightedPattern {
+  pattern: RegExp;
+  weight: number;
+}
+
+// Emotional provocation and outrage bait; weights add up to the ragebait score
+const RAGEBAIT_PATTERNS: WeightedPattern[] = [
+  { pattern: /知らないと(大)?損/, weight: 0.3 },
+  { pattern: /まだ.{0,12}(してる|やってる)の\?/, weight: 0.4 },
+  { pattern: /(人|奴|やつ)は(もう)?(終わってる|終わり|負け組|一生貧乏)/, weight: 0.5 },
+  { pattern: /情弱|負け組|底辺/, weight: 0.4 },
+  { pattern: /(ありえない|ありえん|信じられない|許せない|ふざけるな|ふざけんな)/, weight: 0.3 },
+  { pattern: /(炎上|拡散希望|拡散して|論破)/, weight: 0.3 },
+  { pattern: /(絶対に|今すぐ)(見て|読んで|やめろ|やめて)/, weight: 0.3 },
+  { pattern: /(バカ|アホ|馬鹿)(すぎ|ばかり|ども|しかいない)/, weight: 0.5 },
+  { pattern: /!{3,}|\?{3,}/, weight: 0.2 },
+];
+
+// Guaranteed or effortless earnings (not when negated: "必ず稼げるわけではない")
+const INCOME_CLAIM_PATTERNS: RegExp[] = [
+  /(絶対|確実|必ず|100%|誰でも)(に)?.{0,8}(稼げ|稼ぐ|儲か|儲け|月収|年収)(?!.{0,10}(ない|ません|限ら))/,
+  /(稼げ|儲か)(る|ります)(こと)?(を)?(保証|確約)/,
+  /(元本|収益|利益)保証/,
+  /ノーリスク(で)?.{0,6}(稼|儲)/,
+  /(放置|寝てる間|何もしなくて)(も|で)?.{0,8}(稼げ|月\d|万円)/,
+  /(誰でも|初心者でも)(簡単に)?.{0,6}(月|日)\d+万/,
+];
+
+// Calls to action; many in one post reads as spam
+const CTA_PATTERNS: RegExp[] = [
+  /フォロー(して|お願い|を|で|必須)/,
+  /(いいね|♡|❤)(して|お願い|を|で)/,
+  /(リツイート|リポスト|RT)(して|お願い|を|で)/i,
+  /保存(して|推奨|必須|しておいて)/,
+  /プロフ(ィール)?(の)?(リンク|URL)/i,
+  /DM(して|ください|で|まで)/i,
+  /(コメント|リプ)(して|ください|で|欄)/,
+  /(今すぐ|いますぐ)(登録|購入|申し込|クリック|チェック)/,
+  /(LINE|ライン)(登録|追加|で)/i,
+  /https?:\/\/\S+/,
+];
+const MAX_CTAS = 2;
+
+// Accusations and insults aimed at people
+const DEFAMATION_PATTERNS: RegExp[] = [
+  /詐欺師|犯罪者|嘘つき|ペテン師/,
+  /死ね|消えろ|(クズ|ゴミ|カス)(が|ども|野郎|人間)/,
+  /(晒す|晒します|晒してやる|訴えてやる)/,
+  /(あいつ|この人|あの人|社長|会社)は.{0,10}(詐欺|犯罪|パクリ|最低)/,
+];
+
+/**
+ * Score content with local rules. Absolute income claims and defamation block the post,
+ * more than MAX_CTAS calls to action flags it as spam, and provocative phrasing adds up
+ * to a ragebait score.
+ */
+export function scoreContentSafetyLocally(content: string): LocalSafetyResult {
+  // Full-width letters and symbols to half-width, so the patterns only list one form
+  const text = content.normalize("NFKC");
+  const issues: string[] = [];
+  const violations: string[] = [];
+
+  const ragebaitHits = RAGEBAIT_PATTERNS.filter(({ pattern }) => pattern.test(text));
+  const ragebait = Math.min(
+    1,
+    ragebaitHits.reduce((sum, { weight }) => sum + weight, 0)
+  );
+  if (ragebaitHits.length > 0) {
+    issues.push(`煽り表現 (${ragebaitHits.length}件)`);
+  }
+
+  const incomeClaims = INCOME_CLAIM_PATTERNS.filter((pattern) => pattern.test(text)).length;
+  if (incomeClaims > 0) {
+    violations.push("Absolute income claim");
+    issues.push("断定的な収益表現");
+  }
+
+  const ctas = CTA_PATTERNS.filter((pattern) => pattern.test(text)).length;
+  if (ctas > MAX_CTAS) {
+    issues.push(`過剰な CTA (${ctas}件)`);
+  }
+
+  const defamation = DEFAMATION_PATTERNS.filter((pattern) => pattern.test(text)).length;
+  if (defamation > 0) {
+    violations.push("Defamatory expression");
+    issues.push("誹謗中傷の可能性");
+  }
+
+  return {
+    isSpam: ctas > MAX_CTAS,
+    ragebaitScore: ragebait,
+    issues,
+    violations,
+    scores: { ragebait, incomeClaims, ctas, defamation },
+  };
+}
@@ -3,6 +3,13 @@ import { publishedPosts, metrics, systemEvents } from "@/lib/db/schema";
 import { xClient } from "@/lib/clients/x-client";
 import { threadsClient } from "@/lib/clients/threads-client";
 import { eq, and, gte, lt, isNull, or } from "drizzle-orm";
+import {
+  calculateReward,
+  getActiveRewardDefinition,
+  getRewardKey,
+  getRewardSignals,
+  type RewardDefinition,
+} from "./reward";
 
 interface CollectionResult {
   collected: number;
@@ -55,7 +62,8 @@ async function getPostsNeedingCollection(
  */
 async function collectXMetrics(
   post: typeof publishedPosts.$inferSelect,
-  hoursAfterPublish: number
+  hoursAfterPublish: number,
+  rewardDefinition: RewardDefinition
 ): Promise<boolean> {
   try {
     const tweet = await xClient.getTweetMetrics(post.externalId);
@@ -64,12 +72,9 @@ async function collectXMetrics(
       return false;
     }
 
-    // Calculate reward for learning
     const impressions = tweet.non_public_metrics?.impression_count || 
                        tweet.organic_metrics?.impression_count || 0;
-    const reward = Math.log(1 + impressions);
-
-    await db.insert(metrics).values({
+    const values = {
       publishedPostId: post.id,
       hoursAfterPublish,
       impressionCount: impressions,
@@ -78,7 +83,15 @@ async function collectXMetrics(
       replyCount: tweet.public_metrics.reply_count,
       quoteCount: tweet.public_metrics.quote_count,
       profileVisits: tweet.non_public_metrics?.user_profile_clicks,
+    };
+
+    // Calculate reward for learning with the active reward definition
+    const reward = calculateReward(getRewardSignals(values), "x", rewardDefinition);
+
+    await db.insert(metrics).values({
+      ...values,
       reward,
+      rewardDefinition: getRewardKey(rewardDefinition),
     });
 
     return true;
@@ -92,7 +105,8 @@ async function collectXMetrics(
  */
 async function collectThreadsMetrics(
   post: typeof publishedPosts.$inferSelect,
-  hoursAfterPublish: number
+  hoursAfterPublish: number,
+  rewardDefinition: RewardDefinition
 ): Promise<boolean> {
   try {
     const insights = await threadsClient.getThreadInsights(post.externalId);
@@ -101,10 +115,7 @@ async function collectThreadsMetrics(
       return false;
     }
 
-    // For Threads, we use views as the main engagement metric
-    const reward = Math.log(1 + insights.views);
-
-    await db.insert(metrics).values({
+    const values = {
       publishedPostId: post.id,
       hoursAfterPublish,
       threadsLikes: insights.likes,
@@ -112,7 +123,15 @@ async function collectThreadsMetrics(
       threadsReposts: insights.reposts,
       threadsQuotes: insights.quotes,
       impressionCount: insights.views, // Store views as impressions for consistency
+    };
+
+    // Calculate reward for learning with the active reward definition
+    const reward = calculateReward(getRewardSignals(values), "threads", rewardDefinition);
+
+    await db.insert(metrics).values({
+      ...values,
       reward,
+      rewardDefinition: getRewardKey(rewardDefinition),
     });
 
     return true;
@@ -131,6 +150,7 @@ export async function collectMetrics(): Promise<{
   const windows = [6, 24, 48]; // Hours after publish to collect
   const results: Record<number, CollectionResult> = {};
   const total: CollectionResult = { collected: 0, skipped: 0, errors: [] };
+  const rewardDefinition = await getActiveRewardDefinition();
 
   for (const hoursWindow of windows) {
     const windowResult: CollectionResult = { collected: 0, skipped: 0, errors: [] };
@@ -142,9 +162,9 @@ export async function collectMetrics(): Promise<{
         let success = false;
 
         if (post.platform === "x") {
-          success = await collectXMetrics(post, hoursWindow);
+          success = await collectXMetrics(post, hoursWindow, rewardDefinition);
         } else if (post.platform === "threads") {
-          success = await collectThreadsMetrics(post, hoursWindow);
+          success = await collectThreadsMetrics(post, hoursWindow, rewardDefinition);
         }
 
         if (success) {
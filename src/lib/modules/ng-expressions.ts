@@ -0,0 +1,350 @@
+import { db } from "@/lib/db";
+import { ngExpressions, publishedPosts, scheduledPosts, systemEvents } from "@/lib/db/schema";
+import { asc, desc, eq, notInArray } from "drizzle-orm";
+
+export const ngPatternTypes = ["exact", "contains", "regex"] as const;
+export type NgPatternType = (typeof ngPatternTypes)[number];
+
+export interface NgRule {
+  pattern: string;
+  patternType: NgPatternType;
+  category?: string | null;
+  severity?: number;
+  isActive?: boolean;
+}
+
+export type NgExpression = typeof ngExpressions.$inferSelect;
+
+export type DryRunSource = "published" | "scheduled" | "rejected";
+
+const CSV_COLUMNS = ["pattern", "patternType", "category", "severity", "isActive"] as const;
+
+// Sample drafts listed per rule in a dry run
+const DRY_RUN_SAMPLES = 5;
+
+async function logChange(eventType: string, message: string, metadata: Record<string, unknown>) {
+  await db.insert(systemEvents).values({ eventType, severity: "info", message, metadata });
+}
+
+/**
+ * Why a pattern cannot be used (e.g. a regex that does not compile), or null if it can
+ */
+export function getNgPatternError(pattern: string, patternType: string): string | null {
+  if (!pattern.trim()) return "Pattern is empty";
+  if (patternType === "regex") {
+    try {
+      new RegExp(pattern, "i");
+    } catch (error) {
+      return `Invalid regex: ${error instanceof Error ? error.message : String(error)}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Whether content matches a rule (an invalid regex matches nothing)
+ */
+export function matchesNgRule(
+  content: string,
+  rule: { pattern: string; patternType: string }
+): boolean {
+  switch (rule.patternType) {
+    case "exact":
+      return content.includes(rule.pattern);
+    case "contains":
+      return content.toLowerCase().includes(rule.pattern.toLowerCase());
+    case "regex":
+      try {
+        return new RegExp(rule.pattern, "i").test(content);
+      } catch {
+        return false;
+      }
+    default:
+      return false;
+  }
+}
+
+/**
+ * List NG expressions, optionally only the active ones
+ */
+export async function listNgExpressions(activeOnly: boolean = false): Promise<NgExpression[]> {
+  return db.query.ngExpressions.findMany({
+    where: activeOnly ? eq(ngExpressions.isActive, true) : undefined,
+    orderBy: [asc(ngExpressions.category), asc(ngExpressions.id)],
+  });
+}
+
+export async function getNgExpression(id: number): Promise<NgExpression | undefined> {
+  return db.query.ngExpressions.findFirst({ where: eq(ngExpressions.id, id) });
+}
+
+export async function createNgExpression(rule: NgRule): Promise<NgExpression> {
+  const [created] = await db
+    .insert(ngExpressions)
+    .values({
+      pattern: rule.pattern,
+      patternType: rule.patternType,
+      category: rule.category ?? null,
+      severity: rule.severity ?? 1.0,
+      isActive: rule.isActive ?? true,
+    })
+    .returning();
+
+  await logChange("ng_expression_created", `NG expression added: ${rule.pattern}`, {
+    id: created.id,
+    ...rule,
+  });
+  return created;
+}
+
+export async function updateNgExpression(
+  id: number,
+  updates: Partial<NgRule>
+): Promise<NgExpression | undefined> {
+  const [updated] = await db
+    .update(ngExpressions)
+    .set(updates)
+    .where(eq(ngExpressions.id, id))
+    .returning();
+
+  if (updated) {
+    await logChange("ng_expression_updated", `NG expression ${id} updated`, { id, ...updates });
+  }
+  return updated;
+}
+
+export async function deleteNgExpression(id: number): Promise<boolean> {
+  const [deleted] = await db
+    .delete(ngExpressions)
+    .where(eq(ngExpressions.id, id))
+    .returning();
+
+  if (deleted) {
+    await logChange("ng_expression_deleted", `NG expression deleted: ${deleted.pattern}`, {
+      id,
+      pattern: deleted.pattern,
+      patternType: deleted.patternType,
+    });
+  }
+  return !!deleted;
+}
+
+/**
+ * Bulk import. Rules are matched to existing ones by pattern and type: existing ones are
+ * updated, new ones created. With mode "replace", expressions missing from the import are deleted.
+ */
+export async function importNgExpressions(
+  rules: NgRule[],
+  mode: "merge" | "replace" = "merge"
+): Promise<{ created: number; updated: number; deleted: number }> {
+  const results = { created: 0, updated: 0, deleted: 0 };
+  const existing = await db.query.ngExpressions.findMany();
+  const byKey = new Map(existing.map((e) => [`${e.patternType}:${e.pattern}`, e]));
+  const keptIds: number[] = [];
+
+  for (const rule of rules) {
+    const values = {
+      pattern: rule.pattern,
+      patternType: rule.patternType,
+      category: rule.category ?? null,
+      severity: rule.severity ?? 1.0,
+      isActive: rule.isActive ?? true,
+    };
+    const match = byKey.get(`${rule.patternType}:${rule.pattern}`);
+
+    if (match) {
+      await db.update(ngExpressions).set(values).where(eq(ngExpressions.id, match.id));
+      keptIds.push(match.id);
+      results.updated++;
+    } else {
+      const [created] = await db.insert(ngExpressions).values(values).returning();
+      byKey.set(`${rule.patternType}:${rule.pattern}`, created);
+      keptIds.push(created.id);
+      results.created++;
+    }
+  }
+
+  if (mode === "replace") {
+    const deleted = await db
+      .delete(ngExpressions)
+      .where(keptIds.length > 0 ? notInArray(ngExpressions.id, keptIds) : undefined)
+      .returning({ id: ngExpressions.id });
+    results.deleted = deleted.length;
+  }
+
+  await logChange(
+    "ng_expressions_imported",
+    `NG expressions imported (${mode}): ${results.created} created, ${results.updated} updated, ${results.deleted} deleted`,
+    { mode, ...results }
+  );
+  return results;
+}
+
+/**
+ * Export as CSV (header: pattern,patternType,category,severity,isActive)
+ */
+export function ngExpressionsToCsv(
+  rules: Array<Pick<NgExpression, "pattern" | "patternType" | "category" | "severity" | "isActive">>
+): string {
+  const escape = (value: unknown) => {
+    const text = value === null || value === undefined ? "" : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+
+  const lines = [
+    CSV_COLUMNS.join(","),
+    ...rules.map((rule) => CSV_COLUMNS.map((column) => escape(rule[column])).join(",")),
+  ];
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Parse CSV (RFC 4180 quoting) into one record per row, keyed by the header row
+ */
+export function parseNgExpressionsCsv(csv: string): Record<string, string>[] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < csv.length; i++) {
+    const ch = csv[i];
+    if (quoted) {
+      if (ch === '"' && csv[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ",") {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && csv[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const [header, ...records] = rows.filter((r) => r.some((value) => value.trim() !== ""));
+  if (!header) return [];
+
+  const columns = header.map((column) => column.trim().replace(/^\uFEFF/, ""));
+  return records.map((record) =>
+    Object.fromEntries(columns.map((column, index) => [column, (record[index] ?? "").trim()]))
+  );
+}
+
+/**
+ * Run a rule set over the most recent drafts: the last `limit` published posts, scheduled
+ * posts (any status) and drafts the policy checks rejected. Reports per rule how many drafts
+ * it matches and per draft which rules match. Nothing is blocked or changed.
+ */
+export async function dryRunNgExpressions(
+  rules: NgRule[],
+  limit: number = 100
+): Promise<{
+  evaluated: Record<DryRunSource, number>;
+  matchedDrafts: number;
+  rules: Array<NgRule & { matches: number; samples: Array<{ source: DryRunSource; id: number }> }>;
+  matches: Array<{
+    source: DryRunSource;
+    id: number;
+    content: string;
+    at: string;
+    patterns: string[];
+  }>;
+}> {
+  const [published, scheduled, rejected] = await Promise.all([
+    db.query.publishedPosts.findMany({
+      orderBy: desc(publishedPosts.publishedAt),
+      limit,
+      columns: { id: true, content: true, publishedAt: true },
+    }),
+    db.query.scheduledPosts.findMany({
+      orderBy: desc(scheduledPosts.createdAt),
+      limit,
+      columns: { id: true, content: true, createdAt: true },
+    }),
+    db.query.systemEvents.findMany({
+      where: eq(systemEvents.eventType, "generate_rejected"),
+      orderBy: desc(systemEvents.createdAt),
+      limit,
+    }),
+  ]);
+
+  const drafts: Array<{ source: DryRunSource; id: number; content: string; at: Date }> = [
+    ...published.map((p) => ({
+      source: "published" as const,
+      id: p.id,
+      content: p.content,
+      at: p.publishedAt,
+    })),
+    ...scheduled.map((s) => ({
+      source: "scheduled" as const,
+      id: s.id,
+      content: s.content,
+      at: s.createdAt,
+    })),
+    ...rejected
+      .filter((e) => typeof (e.metadata as { content?: unknown } | null)?.content === "string")
+      .map((e) => ({
+        source: "rejected" as const,
+        id: e.id,
+        content: (e.metadata as { content: string }).content,
+        at: e.createdAt,
+      })),
+  ];
+
+  const ruleReports = rules.map((rule) => ({
+    ...rule,
+    matches: 0,
+    samples: [] as Array<{ source: DryRunSource; id: number }>,
+  }));
+  const matches = [];
+
+  for (const draft of drafts) {
+    const patterns: string[] = [];
+    for (const report of ruleReports) {
+      if (report.isActive === false || !matchesNgRule(draft.content, report)) continue;
+      report.matches++;
+      if (report.samples.length < DRY_RUN_SAMPLES) {
+        report.samples.push({ source: draft.source, id: draft.id });
+      }
+      patterns.push(report.pattern);
+    }
+
+    if (patterns.length > 0) {
+      matches.push({
+        source: draft.source,
+        id: draft.id,
+        content: draft.content,
+        at: draft.at.toISOString(),
+        patterns,
+      });
+    }
+  }
+
+  return {
+    evaluated: {
+      published: published.length,
+      scheduled: scheduled.length,
+      rejected: drafts.filter((d) => d.source === "rejected").length,
+    },
+    matchedDrafts: matches.length,
+    rules: ruleReports,
+    matches,
+  };
+}
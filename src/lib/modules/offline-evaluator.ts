@@ -0,0 +1,256 @@
+import { db } from "@/lib/db";
+import { selectionLogs, scheduledPosts, publishedPosts, metrics } from "@/lib/db/schema";
+import { eq, and, gte, desc, inArray } from "drizzle-orm";
+import { getCurrentWeights } from "./template-synthesizer";
+import { calculateReward, getActiveRewardDefinition, getRewardKey, getRewardSignals } from "./reward";
+
+export type TargetPolicyName = "uniform" | "greedy_reward_model" | "template_weights";
+
+export const targetPolicyNames: readonly TargetPolicyName[] = [
+  "uniform",
+  "greedy_reward_model",
+  "template_weights",
+];
+
+type Candidate = { format: string; hookType: string; topic: string };
+
+interface PolicyEstimate {
+  policy: TargetPolicyName;
+  ips: number;
+  snips: number; // Self-normalized IPS
+  doublyRobust: number;
+  effectiveSampleSize: number;
+  meanWeight: number;
+}
+
+export interface OfflineEvaluationReport {
+  platform: "x" | "threads" | "all";
+  days: number;
+  rewardDefinition: string;
+  loggedSelections: number;
+  evaluatedSamples: number; // Logged selections that were published and have 24h metrics
+  observedAverageReward: number; // On-policy value of the logging policy
+  estimates: PolicyEstimate[];
+}
+
+/**
+ * Reward model r̂(a) backing off from arm to format×hook to the global mean
+ */
+function buildRewardModel(
+  samples: Array<Candidate & { reward: number }>,
+  minSamples: number = 3
+): (candidate: Candidate) => number {
+  const byArm = new Map<string, { sum: number; n: number }>();
+  const byFormatHook = new Map<string, { sum: number; n: number }>();
+  let globalSum = 0;
+
+  const add = (map: Map<string, { sum: number; n: number }>, key: string, reward: number) => {
+    const entry = map.get(key) || { sum: 0, n: 0 };
+    entry.sum += reward;
+    entry.n++;
+    map.set(key, entry);
+  };
+
+  for (const s of samples) {
+    add(byArm, `${s.format}:${s.hookType}:${s.topic}`, s.reward);
+    add(byFormatHook, `${s.format}:${s.hookType}`, s.reward);
+    globalSum += s.reward;
+  }
+  const globalMean = samples.length > 0 ? globalSum / samples.length : 0;
+
+  return (c) => {
+    const arm = byArm.get(`${c.format}:${c.hookType}:${c.topic}`);
+    if (arm && arm.n >= minSamples) return arm.sum / arm.n;
+    const formatHook = byFormatHook.get(`${c.format}:${c.hookType}`);
+    if (formatHook && formatHook.n >= minSamples) return formatHook.sum / formatHook.n;
+    return globalMean;
+  };
+}
+
+/**
+ * Probability distribution a target policy assigns over a logged candidate set
+ */
+function getTargetDistribution(
+  policy: TargetPolicyName,
+  candidates: Candidate[],
+  rewardModel: (c: Candidate) => number,
+  weights: { formats: Record<string, number>; hookTypes: Record<string, number> }
+): number[] {
+  const k = candidates.length;
+
+  switch (policy) {
+    case "uniform":
+      return candidates.map(() => 1 / k);
+
+    case "greedy_reward_model": {
+      const predicted = candidates.map(rewardModel);
+      const best = Math.max(...predicted);
+      const ties = predicted.filter((p) => p === best).length;
+      return predicted.map((p) => (p === best ? 1 / ties : 0));
+    }
+
+    case "template_weights": {
+      const raw = candidates.map(
+        (c) => (weights.formats[c.format] || 1.0) * (weights.hookTypes[c.hookType] || 1.0)
+      );
+      const total = raw.reduce((sum, w) => sum + w, 0);
+      return raw.map((w) => (total > 0 ? w / total : 1 / k));
+    }
+  }
+}
+
+/**
+ * Evaluate alternative selection policies offline with IPS and doubly-robust estimators,
+ * using logged selections joined to published posts and their 24h metrics
+ */
+export async function evaluatePolicies(
+  params: {
+    platform?: "x" | "threads";
+    days?: number;
+    policies?: TargetPolicyName[];
+    maxImportanceWeight?: number;
+  } = {}
+): Promise<OfflineEvaluationReport> {
+  const days = params.days ?? 30;
+  const policies = params.policies ?? [...targetPolicyNames];
+  const maxWeight = params.maxImportanceWeight ?? 20;
+  const cutoff = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+  const rewardDefinition = await getActiveRewardDefinition();
+
+  const logs = await db.query.selectionLogs.findMany({
+    where: params.platform
+      ? and(eq(selectionLogs.platform, params.platform), gte(selectionLogs.createdAt, cutoff))
+      : gte(selectionLogs.createdAt, cutoff),
+    // The most recent selections when the window holds more than the cap
+    orderBy: desc(selectionLogs.createdAt),
+    limit: 2000,
+  });
+
+  // Reward model is fit on every published post in the window, logged or not
+  const windowPosts = await db.query.publishedPosts.findMany({
+    where: params.platform
+      ? and(eq(publishedPosts.platform, params.platform), gte(publishedPosts.publishedAt, cutoff))
+      : gte(publishedPosts.publishedAt, cutoff),
+  });
+  const windowPostIds = windowPosts.map((p) => p.id);
+
+  const [windowMetrics, scheduled] = await Promise.all([
+    windowPostIds.length > 0
+      ? db.query.metrics.findMany({
+          where: and(
+            inArray(metrics.publishedPostId, windowPostIds),
+            eq(metrics.hoursAfterPublish, 24)
+          ),
+        })
+      : Promise.resolve([]),
+    logs.length > 0
+      ? db.query.scheduledPosts.findMany({
+          where: inArray(
+            scheduledPosts.selectionLogId,
+            logs.map((l) => l.id)
+          ),
+        })
+      : Promise.resolve([]),
+  ]);
+
+  const rewardByPost = new Map<number, number>();
+  const metricByPost = new Map(windowMetrics.map((m) => [m.publishedPostId, m]));
+  for (const post of windowPosts) {
+    const metric = metricByPost.get(post.id);
+    if (!metric) continue;
+    rewardByPost.set(
+      post.id,
+      calculateReward(getRewardSignals(metric), post.platform as "x" | "threads", rewardDefinition)
+    );
+  }
+
+  const rewardModel = buildRewardModel(
+    windowPosts
+      .filter((p) => rewardByPost.has(p.id) && p.format && p.hookType && p.topic)
+      .map((p) => ({
+        format: p.format!,
+        hookType: p.hookType!,
+        topic: p.topic!,
+        reward: rewardByPost.get(p.id)!,
+      }))
+  );
+
+  // Join: selection log -> scheduled post -> published post -> reward
+  const publishedByScheduled = new Map(
+    windowPosts.filter((p) => p.scheduledPostId).map((p) => [p.scheduledPostId!, p])
+  );
+  const rewardByLog = new Map<number, number>();
+  for (const s of scheduled) {
+    if (!s.selectionLogId) continue;
+    const published = publishedByScheduled.get(s.id);
+    const reward = published ? rewardByPost.get(published.id) : undefined;
+    if (reward !== undefined) rewardByLog.set(s.selectionLogId, reward);
+  }
+
+  const samples = logs.filter((l) => rewardByLog.has(l.id) && l.candidates.length > 0);
+
+  const weightsByPlatform = {
+    x: await getCurrentWeights("x"),
+    threads: await getCurrentWeights("threads"),
+  };
+
+  const estimates: PolicyEstimate[] = policies.map((policy) => {
+    let ipsSum = 0;
+    let drSum = 0;
+    let weightSum = 0;
+    let weightSqSum = 0;
+    let n = 0;
+
+    for (const log of samples) {
+      const reward = rewardByLog.get(log.id)!;
+      const candidates = log.candidates;
+      const chosenIndex = candidates.findIndex(
+        (c) => c.format === log.format && c.hookType === log.hookType && c.topic === log.topic
+      );
+      if (chosenIndex === -1) continue;
+
+      // Logging probability within the evaluated candidate set
+      const loggingProbability = Math.max(
+        1e-6,
+        log.propensity / Math.max(log.inclusionProbability, 1e-6)
+      );
+      const target = getTargetDistribution(
+        policy,
+        candidates,
+        rewardModel,
+        weightsByPlatform[log.platform as "x" | "threads"] || weightsByPlatform.x
+      );
+
+      const weight = Math.min(maxWeight, target[chosenIndex] / loggingProbability);
+      const directMethod = candidates.reduce((sum, c, i) => sum + target[i] * rewardModel(c), 0);
+
+      ipsSum += weight * reward;
+      drSum += directMethod + weight * (reward - rewardModel(candidates[chosenIndex]));
+      weightSum += weight;
+      weightSqSum += weight * weight;
+      n++;
+    }
+
+    return {
+      policy,
+      ips: n > 0 ? ipsSum / n : 0,
+      snips: weightSum > 0 ? ipsSum / weightSum : 0,
+      doublyRobust: n > 0 ? drSum / n : 0,
+      effectiveSampleSize: weightSqSum > 0 ? (weightSum * weightSum) / weightSqSum : 0,
+      meanWeight: n > 0 ? weightSum / n : 0,
+    };
+  });
+
+  const observedTotal = samples.reduce((sum, l) => sum + rewardByLog.get(l.id)!, 0);
+
+  return {
+    platform: params.platform ?? "all",
+    days,
+    rewardDefinition: getRewardKey(rewardDefinition),
+    loggedSelections: logs.length,
+    evaluatedSamples: samples.length,
+    observedAverageReward: samples.length > 0 ? observedTotal / samples.length : 0,
+    estimates,
+  };
+}
@@ -2,19 +2,22 @@ import { db } from "@/lib/db";
 import { patterns, externalPosts, systemEvents } from "@/lib/db/schema";
 import { extractPattern } from "@/lib/clients/openai-client";
 import { eq, isNull, and, gte } from "drizzle-orm";
+import { getCharNgrams } from "@/lib/utils/ngram";
 
 /**
  * Check for text similarity to prevent copying
  * Returns similarity ratio (0-1)
  */
 function calculateTextSimilarity(text1: string, text2: string): number {
-  const words1 = new Set(text1.split(/\s+/));
-  const words2 = new Set(text2.split(/\s+/));
+  // Japanese has no word breaks, so compare normalized character 3-grams
+  const ngrams1 = getCharNgrams(text1);
+  const ngrams2 = getCharNgrams(text2);
+  if (ngrams1.size === 0 || ngrams2.size === 0) return 0;
 
-  const intersection = new Set([...words1].filter((x) => words2.has(x)));
-  const union = new Set([...words1, ...words2]);
+  const intersection = [...ngrams1].filter((x) => ngrams2.has(x)).length;
+  const union = ngrams1.size + ngrams2.size - intersection;
 
-  return intersection.size / union.size;
+  return intersection / union;
 }
 
 /**
@@ -126,6 +129,8 @@ export async function getPatternDistribution(days: number = 7): Promise<{
   formats: Record<string, { count: number; avgBuzz: number }>;
   hookTypes: Record<string, { count: number; avgBuzz: number }>;
   payloadTypes: Record<string, { count: number; avgBuzz: number }>;
+  lengthBuckets: Record<string, { count: number; avgBuzz: number }>;
+  emojiDensities: Record<string, { count: number; avgBuzz: number }>;
 }> {
   const cutoff = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
 
@@ -161,6 +166,8 @@ export async function getPatternDistribution(days: number = 7): Promise<{
   const formats: Record<string, { count: number; totalBuzz: number }> = {};
   const hookTypes: Record<string, { count: number; totalBuzz: number }> = {};
   const payloadTypes: Record<string, { count: number; totalBuzz: number }> = {};
+  const lengthBuckets: Record<string, { count: number; totalBuzz: number }> = {};
+  const emojiDensities: Record<string, { count: number; totalBuzz: number }> = {};
 
   for (const pattern of recentPatterns) {
     const post = postMap.get(pattern.externalPostId);
@@ -184,6 +191,20 @@ export async function getPatternDistribution(days: number = 7): Promise<{
       payloadTypes[pattern.payloadType].count++;
       payloadTypes[pattern.payloadType].totalBuzz += buzz;
     }
+
+    if (pattern.lengthBucket) {
+      if (!lengthBuckets[pattern.lengthBucket])
+        lengthBuckets[pattern.lengthBucket] = { count: 0, totalBuzz: 0 };
+      lengthBuckets[pattern.lengthBucket].count++;
+      lengthBuckets[pattern.lengthBucket].totalBuzz += buzz;
+    }
+
+    if (pattern.emojiDensity) {
+      if (!emojiDensities[pattern.emojiDensity])
+        emojiDensities[pattern.emojiDensity] = { count: 0, totalBuzz: 0 };
+      emojiDensities[pattern.emojiDensity].count++;
+      emojiDensities[pattern.emojiDensity].totalBuzz += buzz;
+    }
   }
 
   // Calculate averages
@@ -202,6 +223,8 @@ export async function getPatternDistribution(days: number = 7): Promise<{
     formats: toAvg(formats),
     hookTypes: toAvg(hookTypes),
     payloadTypes: toAvg(payloadTypes),
+    lengthBuckets: toAvg(lengthBuckets),
+    emojiDensities: toAvg(emojiDensities),
   };
 }
 
@@ -0,0 +1,124 @@
+import { db } from "@/lib/db";
+import { externalPostNgrams, externalPosts, systemEvents } from "@/lib/db/schema";
+import { config } from "@/lib/config";
+import { getCharNgrams } from "@/lib/utils/ngram";
+import { and, count, desc, eq, gte, inArray, isNull, lt, sql } from "drizzle-orm";
+
+// Sources shorter than this many n-grams are too short to call copied
+export const MIN_PLAGIARISM_NGRAMS = 15;
+
+// Rows inserted per statement when indexing
+const INSERT_CHUNK_SIZE = 1000;
+
+// Posts indexed per maintenance run, so a large backlog is worked off over several runs
+const BACKFILL_BATCH_SIZE = 500;
+
+export interface PlagiarismMatch {
+  id: number;
+  externalId: string;
+  platform: string;
+  text: string;
+  similarity: number; // n-gram overlap coefficient
+}
+
+/**
+ * Store the character 3-grams of external posts (replacing any they already had)
+ */
+export async function indexExternalPosts(
+  posts: Array<{ id: number; text: string; collectedAt: Date }>
+): Promise<void> {
+  if (posts.length === 0) return;
+
+  const ids = posts.map((p) => p.id);
+  await db.delete(externalPostNgrams).where(inArray(externalPostNgrams.externalPostId, ids));
+
+  const rows: Array<typeof externalPostNgrams.$inferInsert> = [];
+  for (const post of posts) {
+    const ngrams = getCharNgrams(post.text);
+    await db
+      .update(externalPosts)
+      .set({ ngramCount: ngrams.size })
+      .where(eq(externalPosts.id, post.id));
+    for (const ngram of ngrams) {
+      rows.push({ externalPostId: post.id, ngram, collectedAt: post.collectedAt });
+    }
+  }
+
+  for (let i = 0; i < rows.length; i += INSERT_CHUNK_SIZE) {
+    await db.insert(externalPostNgrams).values(rows.slice(i, i + INSERT_CHUNK_SIZE));
+  }
+}
+
+/**
+ * The external post within the plagiarism window that `content` overlaps most, if that
+ * overlap reaches PLAGIARISM_THRESHOLD. The overlap is counted in the database from the
+ * index, so only the matching post is loaded.
+ */
+export async function findPlagiarismMatch(content: string): Promise<PlagiarismMatch | null> {
+  const ngrams = getCharNgrams(content);
+  if (ngrams.size < MIN_PLAGIARISM_NGRAMS) return null;
+
+  const cutoff = new Date(Date.now() - config.plagiarismWindowDays * 24 * 60 * 60 * 1000);
+  const shared = count();
+  const similarity = sql<number>`${shared}::float / least(${ngrams.size}, ${externalPosts.ngramCount})`;
+
+  const [best] = await db
+    .select({ id: externalPosts.id, similarity })
+    .from(externalPostNgrams)
+    .innerJoin(externalPosts, eq(externalPosts.id, externalPostNgrams.externalPostId))
+    .where(
+      and(
+        inArray(externalPostNgrams.ngram, [...ngrams]),
+        gte(externalPostNgrams.collectedAt, cutoff),
+        gte(externalPosts.ngramCount, MIN_PLAGIARISM_NGRAMS)
+      )
+    )
+    .groupBy(externalPosts.id, externalPosts.ngramCount)
+    .having(gte(similarity, config.plagiarismThreshold))
+    .orderBy(desc(similarity))
+    .limit(1);
+  if (!best) return null;
+
+  const source = await db.query.externalPosts.findFirst({
+    where: eq(externalPosts.id, best.id),
+    columns: { id: true, externalId: true, platform: true, text: true },
+  });
+  return source ? { ...source, similarity: Number(best.similarity) } : null;
+}
+
+/**
+ * Keep the index in step with the plagiarism window: drop n-grams of posts that left it and
+ * index window posts that are missing (e.g. posts from before the index existed)
+ */
+export async function maintainPlagiarismIndex(): Promise<{ removed: number; indexed: number }> {
+  const cutoff = new Date(Date.now() - config.plagiarismWindowDays * 24 * 60 * 60 * 1000);
+
+  const expired = await db
+    .delete(externalPostNgrams)
+    .where(lt(externalPostNgrams.collectedAt, cutoff))
+    .returning({ externalPostId: externalPostNgrams.externalPostId });
+  const results = {
+    removed: new Set(expired.map((row) => row.externalPostId)).size,
+    indexed: 0,
+  };
+
+  const missing = await db.query.externalPosts.findMany({
+    where: and(gte(externalPosts.collectedAt, cutoff), isNull(externalPosts.ngramCount)),
+    columns: { id: true, text: true, collectedAt: true },
+    orderBy: desc(externalPosts.collectedAt),
+    limit: BACKFILL_BATCH_SIZE,
+  });
+  await indexExternalPosts(missing);
+  results.indexed = missing.length;
+
+  if (results.removed > 0 || results.indexed > 0) {
+    await db.insert(systemEvents).values({
+      eventType: "plagiarism_index_maintained",
+      severity: "info",
+      message: `Plagiarism index: ${results.indexed} posts indexed, ${results.removed} removed`,
+      metadata: results,
+    });
+  }
+
+  return results;
+}
@@ -1,104 +1,98 @@
 import { db } from "@/lib/db";
 import {
+  accounts,
   publishedPosts,
+  queuedPostStatuses,
   scheduledPosts,
-  ngExpressions,
   systemEvents,
   learningState,
 } from "@/lib/db/schema";
 import { checkContentSafety } from "@/lib/clients/openai-client";
 import { config } from "@/lib/config";
-import { eq, gte, and, desc } from "drizzle-orm";
-import crypto from "crypto";
-
-// MinHash implementation for similarity detection
-class MinHash {
-  private numPerm: number;
-  private hashValues: number[];
-
-  constructor(numPerm: number = 128) {
-    this.numPerm = numPerm;
-    this.hashValues = new Array(numPerm).fill(Infinity);
-  }
-
-  // Generate shingles from text
-  private getShingles(text: string, k: number = 3): Set<string> {
-    const shingles = new Set<string>();
-    const normalized = text.toLowerCase().replace(/\s+/g, " ");
-    for (let i = 0; i <= normalized.length - k; i++) {
-      shingles.add(normalized.slice(i, i + k));
-    }
-    return shingles;
-  }
-
-  // Hash function
-  private hash(shingle: string, seed: number): number {
-    const hash = crypto
-      .createHash("md5")
-      .update(shingle + seed.toString())
-      .digest();
-    return hash.readUInt32LE(0);
-  }
-
-  // Update signature with text
-  update(text: string): void {
-    const shingles = this.getShingles(text);
-    for (const shingle of shingles) {
-      for (let i = 0; i < this.numPerm; i++) {
-        const h = this.hash(shingle, i);
-        if (h < this.hashValues[i]) {
-          this.hashValues[i] = h;
-        }
-      }
-    }
-  }
-
-  // Get signature
-  getSignature(): number[] {
-    return [...this.hashValues];
-  }
+import { checkKillSwitch } from "./kill-switch";
+import {
+  checkPostingWindow,
+  countPostsByLocalDate,
+  getLocalTime,
+  getPostingWindow,
+} from "./posting-window";
+import { findDuplicateCandidates } from "./duplicate-index";
+import { findPlagiarismMatch } from "./plagiarism-index";
+import { listNgExpressions, matchesNgRule } from "./ng-expressions";
+import { scoreContentSafetyLocally } from "./local-safety";
+import { checkCompliance, type ComplianceFinding } from "./compliance";
+import { eq, gte, and, desc, inArray, isNull, ne } from "drizzle-orm";
+import {
+  MinHash,
+  generateContentHash,
+  generateMinHashSignature,
+} from "@/lib/utils/minhash";
 
-  // Calculate Jaccard similarity from signatures
-  static similarity(sig1: number[], sig2: number[]): number {
-    if (sig1.length !== sig2.length) return 0;
-    let matches = 0;
-    for (let i = 0; i < sig1.length; i++) {
-      if (sig1[i] === sig2[i]) matches++;
-    }
-    return matches / sig1.length;
-  }
+export interface PolicyCheckResult {
+  passed: boolean;
+  reason?: string;
+  details?: Record<string, unknown>;
 }
 
 /**
- * Generate content hash for exact match detection
+ * Daily limit and minimum gap for an account's posts: its own settings, with the global values
+ * as the upper bound (an account can only be stricter). Without an account, the global values.
  */
-function generateContentHash(content: string): string {
-  const normalized = content.toLowerCase().replace(/\s+/g, " ").trim();
-  return crypto.createHash("sha256").update(normalized).digest("hex").slice(0, 16);
-}
+export async function getRateLimits(
+  platform: "x" | "threads",
+  accountId?: number | null
+): Promise<{ label: string; maxPostsPerDay: number; minGapMinutes: number }> {
+  const globalMaxPosts = platform === "x" ? config.maxPostsPerDayX : config.maxPostsPerDayThreads;
+  if (!accountId) {
+    return {
+      label: "default account",
+      maxPostsPerDay: globalMaxPosts,
+      minGapMinutes: config.minGapMinutes,
+    };
+  }
 
-/**
- * Generate MinHash signature for similarity detection
- */
-function generateMinHashSignature(content: string): number[] {
-  const mh = new MinHash(64);
-  mh.update(content);
-  return mh.getSignature();
-}
+  const account = await db.query.accounts.findFirst({ where: eq(accounts.id, accountId) });
+  if (!account) {
+    throw new Error(`Account not found: ${accountId}`);
+  }
 
-interface PolicyCheckResult {
-  passed: boolean;
-  reason?: string;
-  details?: Record<string, unknown>;
+  return {
+    label: `account ${account.name} (#${account.id})`,
+    maxPostsPerDay: Math.min(account.maxPostsPerDay ?? globalMaxPosts, globalMaxPosts),
+    minGapMinutes: Math.max(account.minGapMinutes ?? config.minGapMinutes, config.minGapMinutes),
+  };
 }
 
 /**
- * Check if posting is allowed (kill switch, rate limits)
+ * Check if posting is allowed (kill switch for the platform / account, posting window,
+ * rate limits). The posting window is checked at `at` when given (a planned slot, counting
+ * queued posts other than `excludeScheduledId` towards weekday caps), otherwise now.
  */
-export async function checkPostingAllowed(platform: "x" | "threads"): Promise<PolicyCheckResult> {
+export async function checkPostingAllowed(
+  platform: "x" | "threads",
+  accountId?: number | null,
+  options: { at?: Date; excludeScheduledId?: number } = {}
+): Promise<PolicyCheckResult> {
   // Kill switch
-  if (config.killSwitch) {
-    return { passed: false, reason: "Kill switch is active" };
+  const killSwitch = await checkKillSwitch({ platform, accountId });
+  if (killSwitch.active) {
+    return { passed: false, reason: killSwitch.reason, details: { pause: killSwitch.pause } };
+  }
+
+  // Posting window (quiet hours, blackout dates, weekday caps)
+  const at = options.at || new Date();
+  const window = await getPostingWindow(platform, accountId);
+  const postsByDate = await countPostsByLocalDate(platform, accountId, window, at, {
+    includeScheduled: !!options.at,
+    excludeScheduledId: options.excludeScheduledId,
+  });
+  const windowCheck = checkPostingWindow(
+    window,
+    at,
+    postsByDate.get(getLocalTime(at, window.timezone).dateKey) || 0
+  );
+  if (!windowCheck.allowed) {
+    return { passed: false, reason: windowCheck.reason, details: { postingWindow: true } };
   }
 
   // Check consecutive failures
@@ -113,35 +107,46 @@ export async function checkPostingAllowed(platform: "x" | "threads"): Promise<Po
     };
   }
 
+  // Rate limits apply to the account's own posts
+  const limits = await getRateLimits(platform, accountId);
+  const accountScope = accountId
+    ? eq(publishedPosts.accountId, accountId)
+    : isNull(publishedPosts.accountId);
+
   // Check daily limit
   const today = new Date();
   today.setHours(0, 0, 0, 0);
 
   const todayPosts = await db.query.publishedPosts.findMany({
-    where: and(eq(publishedPosts.platform, platform), gte(publishedPosts.publishedAt, today)),
+    where: and(
+      eq(publishedPosts.platform, platform),
+      accountScope,
+      gte(publishedPosts.publishedAt, today)
+    ),
   });
 
-  const maxPosts = platform === "x" ? config.maxPostsPerDayX : config.maxPostsPerDayThreads;
-  if (todayPosts.length >= maxPosts) {
+  if (todayPosts.length >= limits.maxPostsPerDay) {
     return {
       passed: false,
-      reason: `Daily limit reached (${todayPosts.length}/${maxPosts})`,
+      reason: `Daily limit reached for ${limits.label} (${todayPosts.length}/${limits.maxPostsPerDay})`,
+      details: { accountId: accountId ?? null },
     };
   }
 
   // Check minimum gap
   const lastPost = await db.query.publishedPosts.findFirst({
-    where: eq(publishedPosts.platform, platform),
+    where: and(eq(publishedPosts.platform, platform), accountScope),
     orderBy: desc(publishedPosts.publishedAt),
   });
 
   if (lastPost) {
     const minsSinceLastPost =
       (Date.now() - lastPost.publishedAt.getTime()) / (1000 * 60);
-    if (minsSinceLastPost < config.minGapMinutes) {
+    if (minsSinceLastPost < limits.minGapMinutes) {
       return {
         passed: false,
-        reason: `Minimum gap not met (${minsSinceLastPost.toFixed(1)}/${config.minGapMinutes} mins)`,
+        reason: `Minimum gap not met for ${limits.label} (${minsSinceLastPost.toFixed(1)}/${limits.minGapMinutes} mins)`,
+        details: { accountId: accountId ?? null },
       };
     }
   }
@@ -154,75 +159,101 @@ export async function checkPostingAllowed(platform: "x" | "threads"): Promise<Po
  */
 export async function checkDuplicates(
   content: string,
-  platform: "x" | "threads"
+  platform: "x" | "threads",
+  options: { excludeScheduledId?: number } = {}
 ): Promise<PolicyCheckResult> {
   const hash = generateContentHash(content);
   const signature = generateMinHashSignature(content);
 
-  // Check last 30 days
-  const cutoff = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
+  // Check the duplicate window (published and still-queued scheduled posts)
+  const cutoff = new Date(Date.now() - config.duplicateWindowDays * 24 * 60 * 60 * 1000);
 
   // Exact match check
-  const exactMatch = await db.query.publishedPosts.findFirst({
-    where: and(eq(publishedPosts.contentHash, hash), gte(publishedPosts.publishedAt, cutoff)),
-  });
-
-  if (exactMatch) {
-    return { passed: false, reason: "Exact duplicate detected" };
+  const [exactPublished, exactScheduled] = await Promise.all([
+    db.query.publishedPosts.findFirst({
+      where: and(eq(publishedPosts.contentHash, hash), gte(publishedPosts.publishedAt, cutoff)),
+    }),
+    db.query.scheduledPosts.findFirst({
+      where: and(
+        eq(scheduledPosts.contentHash, hash),
+        inArray(scheduledPosts.status, queuedPostStatuses),
+        options.excludeScheduledId ? ne(scheduledPosts.id, options.excludeScheduledId) : undefined
+      ),
+    }),
+  ]);
+
+  if (exactPublished || exactScheduled) {
+    const match = exactPublished
+      ? { type: "published", id: exactPublished.id, content: exactPublished.content }
+      : { type: "scheduled", id: exactScheduled!.id, content: exactScheduled!.content };
+    return { passed: false, reason: "Exact duplicate detected", details: { match } };
   }
 
-  // Similarity check using MinHash
-  const recentPosts = await db.query.publishedPosts.findMany({
-    where: and(eq(publishedPosts.platform, platform), gte(publishedPosts.publishedAt, cutoff)),
-    orderBy: desc(publishedPosts.publishedAt),
-    limit: 100,
+  // Similarity check: LSH buckets give the candidates, MinHash confirms them
+  const candidates = await findDuplicateCandidates(signature, platform, {
+    excludeScheduledId: options.excludeScheduledId,
   });
 
-  for (const post of recentPosts) {
-    if (post.minhashSignature) {
-      const similarity = MinHash.similarity(signature, post.minhashSignature as number[]);
-      if (similarity > config.duplicateSimThreshold) {
-        return {
-          passed: false,
-          reason: `Similar post detected (similarity: ${(similarity * 100).toFixed(1)}%)`,
-          details: { similarPostId: post.id, similarity },
-        };
-      }
+  let best: { candidate: (typeof candidates)[number]; similarity: number } | undefined;
+  for (const candidate of candidates) {
+    const similarity = MinHash.similarity(signature, candidate.signature);
+    if (similarity > config.duplicateSimThreshold && (!best || similarity > best.similarity)) {
+      best = { candidate, similarity };
     }
   }
 
+  if (best) {
+    const { candidate, similarity } = best;
+    return {
+      passed: false,
+      reason: `Similar ${candidate.type} post detected (similarity: ${(similarity * 100).toFixed(1)}%)`,
+      details: {
+        similarPostId: candidate.id,
+        similarity,
+        match: {
+          type: candidate.type,
+          id: candidate.id,
+          content: candidate.content,
+          postedAt: candidate.postedAt.toISOString(),
+        },
+      },
+    };
+  }
+
   return { passed: true };
 }
 
+/**
+ * Check that content does not reproduce a harvested external post (character 3-gram overlap)
+ */
+export async function checkPlagiarism(content: string): Promise<PolicyCheckResult> {
+  const source = await findPlagiarismMatch(content);
+  if (!source) {
+    return { passed: true };
+  }
+
+  return {
+    passed: false,
+    reason: `Copies external post ${source.externalId} (overlap: ${(source.similarity * 100).toFixed(1)}%)`,
+    details: {
+      externalId: source.externalId,
+      externalPostId: source.id,
+      similarity: source.similarity,
+      sourceUrl:
+        source.platform === "x" ? `https://x.com/i/status/${source.externalId}` : undefined,
+      sourceText: source.text,
+    },
+  };
+}
+
 /**
  * Check content against NG expressions
  */
 export async function checkNGExpressions(content: string): Promise<PolicyCheckResult> {
-  const expressions = await db.query.ngExpressions.findMany({
-    where: eq(ngExpressions.isActive, true),
-  });
+  const expressions = await listNgExpressions(true);
 
   for (const expr of expressions) {
-    let matched = false;
-
-    switch (expr.patternType) {
-      case "exact":
-        matched = content.includes(expr.pattern);
-        break;
-      case "contains":
-        matched = content.toLowerCase().includes(expr.pattern.toLowerCase());
-        break;
-      case "regex":
-        try {
-          const regex = new RegExp(expr.pattern, "i");
-          matched = regex.test(content);
-        } catch {
-          // Invalid regex, skip
-        }
-        break;
-    }
-
-    if (matched) {
+    if (matchesNgRule(content, expr)) {
       return {
         passed: false,
         reason: `NG expression detected: ${expr.category || expr.pattern}`,
@@ -235,7 +266,38 @@ export async function checkNGExpressions(content: string): Promise<PolicyCheckRe
 }
 
 /**
- * Check content safety using LLM
+ * Check content against the enabled compliance rule packs (COMPLIANCE_PACKS).
+ * "block" findings reject the content; "warn" findings pass as warnings.
+ */
+export function checkComplianceRules(content: string): PolicyCheckResult {
+  const { findings, suggestedContent } = checkCompliance(content);
+  if (findings.length === 0) {
+    return { passed: true };
+  }
+
+  const blocking = findings.filter((f) => f.severity === "block");
+  if (blocking.length > 0) {
+    return {
+      passed: false,
+      reason: `Compliance: ${blocking.map((f) => `${f.description} (${f.ruleId})`).join(", ")}`,
+      details: { findings, suggestedContent },
+    };
+  }
+
+  return {
+    passed: true,
+    details: {
+      findings,
+      suggestedContent,
+      warnings: findings.map((f) => `${f.description}: ${f.suggestion}`),
+    },
+  };
+}
+
+/**
+ * Check content safety using LLM.
+ * If the LLM check fails, the local rule-based scorer decides instead; with SAFETY_FAIL_CLOSED
+ * content it passes is still marked `held` so it is not published before an LLM check succeeds.
  */
 export async function checkSafety(content: string): Promise<PolicyCheckResult> {
   try {
@@ -262,49 +324,110 @@ export async function checkSafety(content: string): Promise<PolicyCheckResult> {
 
     return { passed: true };
   } catch (error) {
-    // On safety check failure, err on the side of caution but don't block
+    const local = scoreContentSafetyLocally(content);
+
     await db.insert(systemEvents).values({
       eventType: "safety_check_error",
       severity: "warn",
-      message: `Safety check failed: ${error}`,
+      message: `Safety check failed, using local rules: ${error}`,
+      metadata: { error: String(error), local, failClosed: config.safetyFailClosed },
     });
-    return { passed: true, details: { safetyCheckFailed: true } };
+
+    const details = {
+      safetyCheckFailed: true,
+      fallback: "local",
+      scores: local.scores,
+      issues: local.issues,
+    };
+
+    if (local.violations.length > 0) {
+      return {
+        passed: false,
+        reason: `${local.violations.join(", ")} (local safety check)`,
+        details,
+      };
+    }
+
+    if (local.isSpam) {
+      return { passed: false, reason: "Content flagged as spam (local safety check)", details };
+    }
+
+    if (local.ragebaitScore > config.ragebaitScoreThreshold) {
+      return {
+        passed: false,
+        reason: `Ragebait score too high (${local.ragebaitScore.toFixed(2)}, local safety check)`,
+        details,
+      };
+    }
+
+    return {
+      passed: true,
+      details: {
+        ...details,
+        held: config.safetyFailClosed,
+        warnings: local.issues.length > 0 ? local.issues : undefined,
+      },
+    };
   }
 }
 
 /**
- * Run all policy checks on content
+ * Run all policy checks on content.
+ * `excludeScheduledId` re-checks a queued post without counting it against itself.
  */
 export async function runAllChecks(
   content: string,
-  platform: "x" | "threads"
+  platform: "x" | "threads",
+  accountId?: number | null,
+  options: { scheduledFor?: Date; excludeScheduledId?: number } = {}
 ): Promise<{
   passed: boolean;
   failures: PolicyCheckResult[];
   warnings: string[];
+  safetyHeld: boolean; // passed only the local safety rules in fail-closed mode
+  complianceFindings: ComplianceFinding[];
 }> {
   const failures: PolicyCheckResult[] = [];
   const warnings: string[] = [];
 
   // Check 1: Posting allowed
-  const postingCheck = await checkPostingAllowed(platform);
+  const postingCheck = await checkPostingAllowed(platform, accountId, {
+    at: options.scheduledFor,
+    excludeScheduledId: options.excludeScheduledId,
+  });
   if (!postingCheck.passed) {
     failures.push(postingCheck);
   }
 
   // Check 2: Duplicates
-  const dupCheck = await checkDuplicates(content, platform);
+  const dupCheck = await checkDuplicates(content, platform, {
+    excludeScheduledId: options.excludeScheduledId,
+  });
   if (!dupCheck.passed) {
     failures.push(dupCheck);
   }
 
-  // Check 3: NG expressions
+  // Check 3: Copies of harvested buzz posts
+  const plagiarismCheck = await checkPlagiarism(content);
+  if (!plagiarismCheck.passed) {
+    failures.push(plagiarismCheck);
+  }
+
+  // Check 4: NG expressions
   const ngCheck = await checkNGExpressions(content);
   if (!ngCheck.passed) {
     failures.push(ngCheck);
   }
 
-  // Check 4: Safety
+  // Check 5: Compliance rule packs
+  const complianceCheck = checkComplianceRules(content);
+  if (!complianceCheck.passed) {
+    failures.push(complianceCheck);
+  } else if (complianceCheck.details?.warnings) {
+    warnings.push(...(complianceCheck.details.warnings as string[]));
+  }
+
+  // Check 6: Safety
   const safetyCheck = await checkSafety(content);
   if (!safetyCheck.passed) {
     failures.push(safetyCheck);
@@ -316,6 +439,8 @@ export async function runAllChecks(
     passed: failures.length === 0,
     failures,
     warnings,
+    safetyHeld: safetyCheck.details?.held === true,
+    complianceFindings: (complianceCheck.details?.findings as ComplianceFinding[] | undefined) ?? [],
   };
 }
 
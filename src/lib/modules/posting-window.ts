@@ -0,0 +1,287 @@
+import { db } from "@/lib/db";
+import {
+  learningState,
+  publishedPosts,
+  queuedPostStatuses,
+  scheduledPosts,
+  systemEvents,
+} from "@/lib/db/schema";
+import { config } from "@/lib/config";
+import { and, eq, gte, inArray, lte, ne } from "drizzle-orm";
+
+export interface PostingWindow {
+  allowedHours?: number[]; // hours of the day (0-23) posts may go out
+  blackoutDates?: string[]; // YYYY-MM-DD, no posts all day
+  weekdayCaps?: Partial<Record<string, number>>; // "0" (Sun) - "6" (Sat): max posts that day
+}
+
+export type ResolvedPostingWindow = Required<PostingWindow> & { timezone: string };
+
+export interface PostingWindowTarget {
+  scope: "platform" | "account";
+  platform?: "x" | "threads"; // scope "platform"
+  accountId?: number; // scope "account"
+}
+
+// learning_state "posting_windows": overrides on top of the env defaults
+interface PostingWindowState {
+  platforms?: Partial<Record<"x" | "threads", PostingWindow>>;
+  accounts?: Record<string, PostingWindow>;
+}
+
+interface LocalTime {
+  dateKey: string; // YYYY-MM-DD
+  weekday: number; // 0 (Sun) - 6 (Sat)
+  hour: number;
+  minute: number;
+}
+
+const STATE_KEY = "posting_windows";
+
+// How far ahead the next allowed slot is searched for
+const MAX_SEARCH_DAYS = 14;
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Calendar date, weekday and time of `date` in `timezone`
+ */
+export function getLocalTime(date: Date, timezone: string): LocalTime {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      weekday: "short",
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    });
+    formatters.set(timezone, formatter);
+  }
+
+  const parts: Record<string, string> = {};
+  for (const part of formatter.formatToParts(date)) parts[part.type] = part.value;
+
+  return {
+    dateKey: `${parts.year}-${parts.month}-${parts.day}`,
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+    hour: parseInt(parts.hour, 10),
+    minute: parseInt(parts.minute, 10),
+  };
+}
+
+/**
+ * Parse hour ranges such as "6-23" or "7-9,12,17-22" into the hours they cover (inclusive)
+ */
+export function parseHourRanges(spec: string): number[] {
+  const hours = new Set<number>();
+  for (const part of spec.split(",")) {
+    const [start, end = start] = part.trim().split("-").map((h) => parseInt(h, 10));
+    if (isNaN(start) || isNaN(end)) continue;
+    for (let hour = Math.max(0, start); hour <= Math.min(23, end); hour++) hours.add(hour);
+  }
+  return [...hours].sort((a, b) => a - b);
+}
+
+async function loadState(): Promise<PostingWindowState> {
+  const state = await db.query.learningState.findFirst({
+    where: eq(learningState.key, STATE_KEY),
+  });
+  return (state?.value as PostingWindowState | undefined) || {};
+}
+
+/**
+ * Env defaults and all per-platform / per-account overrides
+ */
+export async function listPostingWindows(): Promise<{
+  timezone: string;
+  defaults: Required<PostingWindow>;
+  platforms: Partial<Record<"x" | "threads", PostingWindow>>;
+  accounts: Record<string, PostingWindow>;
+}> {
+  const state = await loadState();
+  return {
+    timezone: config.postingTimezone,
+    defaults: {
+      allowedHours: parseHourRanges(config.postingAllowedHours),
+      blackoutDates: [...config.postingBlackoutDates],
+      weekdayCaps: {},
+    },
+    platforms: state.platforms || {},
+    accounts: state.accounts || {},
+  };
+}
+
+/**
+ * Window in effect for a platform / account: the account's settings over the platform's over
+ * the env defaults. Blackout dates add up across levels.
+ */
+export async function getPostingWindow(
+  platform: "x" | "threads",
+  accountId?: number | null
+): Promise<ResolvedPostingWindow> {
+  const { timezone, defaults, platforms, accounts } = await listPostingWindows();
+  const levels = [platforms[platform], accountId ? accounts[String(accountId)] : undefined];
+
+  const window: ResolvedPostingWindow = { timezone, ...defaults };
+  for (const level of levels) {
+    if (!level) continue;
+    if (level.allowedHours) window.allowedHours = level.allowedHours;
+    if (level.weekdayCaps) window.weekdayCaps = { ...window.weekdayCaps, ...level.weekdayCaps };
+    if (level.blackoutDates) {
+      window.blackoutDates = [...new Set([...window.blackoutDates, ...level.blackoutDates])];
+    }
+  }
+  return window;
+}
+
+/**
+ * Set (or with null, remove) the window override of a platform or account
+ */
+export async function setPostingWindow(
+  target: PostingWindowTarget,
+  window: PostingWindow | null
+): Promise<void> {
+  const state = await loadState();
+
+  if (target.scope === "platform" && target.platform) {
+    const platforms = { ...state.platforms };
+    if (window) platforms[target.platform] = window;
+    else delete platforms[target.platform];
+    state.platforms = platforms;
+  } else if (target.scope === "account" && target.accountId) {
+    const accounts = { ...state.accounts };
+    if (window) accounts[String(target.accountId)] = window;
+    else delete accounts[String(target.accountId)];
+    state.accounts = accounts;
+  }
+
+  const existing = await db.query.learningState.findFirst({
+    where: eq(learningState.key, STATE_KEY),
+  });
+  if (existing) {
+    await db
+      .update(learningState)
+      .set({ value: state, updatedAt: new Date() })
+      .where(eq(learningState.id, existing.id));
+  } else {
+    await db.insert(learningState).values({ key: STATE_KEY, value: state });
+  }
+
+  await db.insert(systemEvents).values({
+    eventType: "posting_window_updated",
+    severity: "info",
+    message: `Posting window ${window ? "set" : "cleared"} for ${target.scope} ${target.platform ?? target.accountId}`,
+    metadata: { ...target, window },
+  });
+}
+
+/**
+ * Whether a post may go out at `at`, given how many posts that local day already has
+ */
+export function checkPostingWindow(
+  window: ResolvedPostingWindow,
+  at: Date,
+  postsThatDay: number
+): { allowed: true } | { allowed: false; reason: string } {
+  const local = getLocalTime(at, window.timezone);
+
+  if (window.blackoutDates.includes(local.dateKey)) {
+    return { allowed: false, reason: `Blackout date (${local.dateKey})` };
+  }
+  if (!window.allowedHours.includes(local.hour)) {
+    return {
+      allowed: false,
+      reason: `Outside posting hours (${local.hour}:${String(local.minute).padStart(2, "0")} ${window.timezone})`,
+    };
+  }
+  const cap = window.weekdayCaps[String(local.weekday)];
+  if (cap !== undefined && postsThatDay >= cap) {
+    return {
+      allowed: false,
+      reason: `Weekday cap reached (${postsThatDay}/${cap} on ${WEEKDAYS[local.weekday]})`,
+    };
+  }
+
+  return { allowed: true };
+}
+
+/**
+ * Earliest time from `from` that the window allows, within the search horizon.
+ * `postsByDate` holds the posts already on each local date (see countPostsByLocalDate).
+ */
+export function findNextAllowedTime(
+  window: ResolvedPostingWindow,
+  from: Date,
+  postsByDate: Map<string, number>
+): Date | null {
+  const end = from.getTime() + MAX_SEARCH_DAYS * 24 * 60 * 60 * 1000;
+  let candidate = from;
+
+  while (candidate.getTime() < end) {
+    const local = getLocalTime(candidate, window.timezone);
+    const check = checkPostingWindow(window, candidate, postsByDate.get(local.dateKey) || 0);
+    if (check.allowed) return candidate;
+
+    // On to the top of the next hour
+    const startOfMinute = candidate.getTime() - (candidate.getTime() % (60 * 1000));
+    candidate = new Date(startOfMinute + (60 - local.minute) * 60 * 1000);
+  }
+
+  return null;
+}
+
+/**
+ * Posts per local date from the day before `from` through the search horizon: published ones
+ * and, unless `includeScheduled` is false, queued scheduled ones (pending or awaiting review). Scoped to the account if
+ * given, otherwise to the whole platform.
+ */
+export async function countPostsByLocalDate(
+  platform: "x" | "threads",
+  accountId: number | null | undefined,
+  window: ResolvedPostingWindow,
+  from: Date,
+  options: { includeScheduled?: boolean; excludeScheduledId?: number } = {}
+): Promise<Map<string, number>> {
+  const start = new Date(from.getTime() - 24 * 60 * 60 * 1000);
+  const end = new Date(from.getTime() + MAX_SEARCH_DAYS * 24 * 60 * 60 * 1000);
+
+  const [published, scheduled] = await Promise.all([
+    db.query.publishedPosts.findMany({
+      where: and(
+        eq(publishedPosts.platform, platform),
+        accountId ? eq(publishedPosts.accountId, accountId) : undefined,
+        gte(publishedPosts.publishedAt, start)
+      ),
+      columns: { publishedAt: true },
+    }),
+    options.includeScheduled === false
+      ? Promise.resolve([])
+      : db.query.scheduledPosts.findMany({
+          where: and(
+            eq(scheduledPosts.platform, platform),
+            inArray(scheduledPosts.status, queuedPostStatuses),
+            accountId ? eq(scheduledPosts.accountId, accountId) : undefined,
+            options.excludeScheduledId ? ne(scheduledPosts.id, options.excludeScheduledId) : undefined,
+            gte(scheduledPosts.scheduledFor, start),
+            lte(scheduledPosts.scheduledFor, end)
+          ),
+          columns: { scheduledFor: true },
+        }),
+  ]);
+
+  const counts = new Map<string, number>();
+  for (const time of [
+    ...published.map((p) => p.publishedAt),
+    ...scheduled.map((s) => s.scheduledFor),
+  ]) {
+    const { dateKey } = getLocalTime(time, window.timezone);
+    counts.set(dateKey, (counts.get(dateKey) || 0) + 1);
+  }
+  return counts;
+}
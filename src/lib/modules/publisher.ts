@@ -1,20 +1,137 @@
 import { db } from "@/lib/db";
-import { scheduledPosts, publishedPosts, systemEvents } from "@/lib/db/schema";
+import {
+  scheduledPosts,
+  publishedPosts,
+  queuedPostStatuses,
+  selectionLogs,
+  systemEvents,
+} from "@/lib/db/schema";
 import { xClient } from "@/lib/clients/x-client";
 import { threadsClient } from "@/lib/clients/threads-client";
 import {
   checkPostingAllowed,
+  checkSafety,
   recordFailure,
   resetFailures,
   prepareContentForStorage,
 } from "./policy-engine";
-import { eq, and, lte, asc } from "drizzle-orm";
+import { countPostsByLocalDate, findNextAllowedTime, getPostingWindow } from "./posting-window";
+import { indexPost, removeFromIndex } from "./duplicate-index";
+import { getActivePauses } from "./kill-switch";
+import { getTimeBucket, relabelArmTime } from "./bandit";
+import { eq, and, lte, asc, inArray, isNull, notInArray, or } from "drizzle-orm";
 
 interface PublishResult {
   success: boolean;
   postId?: number;
   externalId?: string;
   error?: string;
+  skipped?: boolean; // not attempted (kill switch, rate limits); stays pending
+  blocked?: boolean; // skipped because its platform / account cannot post right now
+}
+
+// Posts attempted per run; skipped ones do not count
+const PUBLISH_BATCH_SIZE = 5;
+// Due posts read at a time while filling the batch
+const DUE_PAGE_SIZE = 20;
+// Due posts on a safety hold re-checked per run
+const HELD_RECHECK_LIMIT = 5;
+
+/**
+ * Move a post that came due outside its posting window to the window's next opening.
+ * The arm, its selection log and the time context are re-labelled for the new slot so the
+ * reward is credited to the time the post actually goes out.
+ * Left pending as is (and retried next run) if the window has no opening ahead.
+ */
+async function rescheduleIntoPostingWindow(
+  scheduled: typeof scheduledPosts.$inferSelect,
+  reason?: string
+): Promise<void> {
+  const platform = scheduled.platform as "x" | "threads";
+  const now = new Date();
+  const window = await getPostingWindow(platform, scheduled.accountId);
+  const postsByDate = await countPostsByLocalDate(platform, scheduled.accountId, window, now, {
+    excludeScheduledId: scheduled.id,
+  });
+  const next = findNextAllowedTime(window, now, postsByDate);
+
+  if (!next) {
+    await db.insert(systemEvents).values({
+      eventType: "post_reschedule_failed",
+      severity: "warn",
+      message: `No posting window opening for scheduled post ${scheduled.id}: ${reason}`,
+      metadata: { scheduledId: scheduled.id, reason },
+    });
+    return;
+  }
+
+  const armId = scheduled.armId ? relabelArmTime(scheduled.armId, next) : null;
+  await db
+    .update(scheduledPosts)
+    .set({
+      scheduledFor: next,
+      armId,
+      timeBucket: getTimeBucket(next.getHours()),
+      dayOfWeek: next.getDay(),
+    })
+    .where(eq(scheduledPosts.id, scheduled.id));
+  if (armId && scheduled.selectionLogId && armId !== scheduled.armId) {
+    await db
+      .update(selectionLogs)
+      .set({ armId })
+      .where(eq(selectionLogs.id, scheduled.selectionLogId));
+  }
+
+  await db.insert(systemEvents).values({
+    eventType: "post_rescheduled",
+    severity: "info",
+    message: `Rescheduled post ${scheduled.id} to ${next.toISOString()}: ${reason}`,
+    metadata: {
+      scheduledId: scheduled.id,
+      from: scheduled.scheduledFor.toISOString(),
+      to: next.toISOString(),
+      reason,
+      previousArmId: scheduled.armId,
+      armId,
+    },
+  });
+}
+
+/**
+ * Re-run the LLM safety check on a post held in fail-closed mode.
+ * Returns the result to report if the post cannot go out yet (or ever), null once cleared.
+ */
+async function recheckHeldSafety(
+  scheduled: typeof scheduledPosts.$inferSelect
+): Promise<PublishResult | null> {
+  const safety = await checkSafety(scheduled.content);
+
+  // Still no LLM verdict: keep holding
+  if (safety.details?.safetyCheckFailed && safety.passed) {
+    return { success: false, error: "Held until the safety check succeeds", skipped: true };
+  }
+
+  if (!safety.passed) {
+    await db
+      .update(scheduledPosts)
+      .set({ status: "cancelled", safetyPending: false })
+      .where(eq(scheduledPosts.id, scheduled.id));
+    await removeFromIndex("scheduled", scheduled.id);
+
+    await db.insert(systemEvents).values({
+      eventType: "post_safety_rejected",
+      severity: "warn",
+      message: `Held post ${scheduled.id} failed its safety check: ${safety.reason}`,
+      metadata: { scheduledId: scheduled.id, reason: safety.reason, details: safety.details },
+    });
+    return { success: false, error: safety.reason };
+  }
+
+  await db
+    .update(scheduledPosts)
+    .set({ safetyPending: false })
+    .where(eq(scheduledPosts.id, scheduled.id));
+  return null;
 }
 
 /**
@@ -24,9 +141,17 @@ async function publishPost(
   scheduled: typeof scheduledPosts.$inferSelect
 ): Promise<PublishResult> {
   // Check if posting is allowed
-  const allowedCheck = await checkPostingAllowed(scheduled.platform as "x" | "threads");
+  const allowedCheck = await checkPostingAllowed(
+    scheduled.platform as "x" | "threads",
+    scheduled.accountId
+  );
   if (!allowedCheck.passed) {
-    return { success: false, error: allowedCheck.reason };
+    if (allowedCheck.details?.postingWindow) {
+      await rescheduleIntoPostingWindow(scheduled, allowedCheck.reason);
+      return { success: false, error: allowedCheck.reason, skipped: true };
+    }
+    // Daily limit, minimum gap, consecutive failures: holds for the target's other posts too
+    return { success: false, error: allowedCheck.reason, skipped: true, blocked: true };
   }
 
   try {
@@ -54,6 +179,7 @@ async function publishPost(
       .values({
         scheduledPostId: scheduled.id,
         platform: scheduled.platform,
+        accountId: scheduled.accountId,
         externalId,
         content: scheduled.content,
         armId: scheduled.armId,
@@ -71,6 +197,16 @@ async function publishPost(
       .set({ status: "published" })
       .where(eq(scheduledPosts.id, scheduled.id));
 
+    // Move the post's duplicate-index entry from scheduled to published
+    await removeFromIndex("scheduled", scheduled.id);
+    await indexPost({
+      type: "published",
+      id: published.id,
+      platform: published.platform,
+      signature: minhashSignature,
+      postedAt: published.publishedAt,
+    });
+
     // Reset failure counter on success
     await resetFailures();
 
@@ -98,6 +234,7 @@ async function publishPost(
         .update(scheduledPosts)
         .set({ status: "failed", retryCount: newRetryCount })
         .where(eq(scheduledPosts.id, scheduled.id));
+      await removeFromIndex("scheduled", scheduled.id);
     } else {
       await db
         .update(scheduledPosts)
@@ -132,53 +269,106 @@ export async function publishDuePosts(): Promise<{
   let failed = 0;
   let skipped = 0;
 
-  // Get posts due for publishing
-  const duePosts = await db.query.scheduledPosts.findMany({
+  // Posts of paused platforms / accounts stay pending; left out so they never fill the batch
+  const pauses = await getActivePauses(now);
+  if (pauses.some((p) => p.scope === "global")) {
+    return { published: 0, failed: 0, skipped: 0, results: [] };
+  }
+  const pausedPlatforms = pauses.flatMap((p) =>
+    p.scope === "platform" && p.platform ? [p.platform] : []
+  );
+  const pausedAccounts = pauses.flatMap((p) =>
+    p.scope === "account" && p.accountId ? [p.accountId] : []
+  );
+
+  // Posts on a safety hold stay out of the batch until an LLM check clears them
+  const heldPosts = await db.query.scheduledPosts.findMany({
     where: and(
       eq(scheduledPosts.status, "pending"),
+      eq(scheduledPosts.safetyPending, true),
       lte(scheduledPosts.scheduledFor, now)
     ),
-    orderBy: asc(scheduledPosts.scheduledFor),
-    limit: 5, // Process a limited batch
+    orderBy: [asc(scheduledPosts.scheduledFor), asc(scheduledPosts.id)],
+    limit: HELD_RECHECK_LIMIT,
   });
-
-  if (duePosts.length === 0) {
-    return { published: 0, failed: 0, skipped: 0, results: [] };
+  for (const post of heldPosts) {
+    await recheckHeldSafety(post);
   }
 
-  for (const post of duePosts) {
-    const result = await publishPost(post);
-    results.push(result);
+  // Read due posts page by page until the batch has PUBLISH_BATCH_SIZE attempted posts.
+  // Once a platform / account is blocked (rate limits), its other posts are passed over.
+  const seenIds: number[] = [];
+  const blockedTargets = new Set<string>();
 
-    if (result.success) {
-      published++;
-    } else {
-      failed++;
+  while (published + failed < PUBLISH_BATCH_SIZE) {
+    const duePosts = await db.query.scheduledPosts.findMany({
+      where: and(
+        eq(scheduledPosts.status, "pending"),
+        eq(scheduledPosts.safetyPending, false),
+        lte(scheduledPosts.scheduledFor, now),
+        pausedPlatforms.length > 0 ? notInArray(scheduledPosts.platform, pausedPlatforms) : undefined,
+        pausedAccounts.length > 0
+          ? or(isNull(scheduledPosts.accountId), notInArray(scheduledPosts.accountId, pausedAccounts))
+          : undefined,
+        seenIds.length > 0 ? notInArray(scheduledPosts.id, seenIds) : undefined
+      ),
+      orderBy: [asc(scheduledPosts.scheduledFor), asc(scheduledPosts.id)],
+      limit: DUE_PAGE_SIZE,
+    });
+    if (duePosts.length === 0) break;
+
+    for (const post of duePosts) {
+      if (published + failed >= PUBLISH_BATCH_SIZE) break;
+      seenIds.push(post.id);
+
+      const target = `${post.platform}:${post.accountId ?? ""}`;
+      if (blockedTargets.has(target)) {
+        skipped++;
+        continue;
+      }
+
+      const result = await publishPost(post);
+      results.push(result);
+
+      if (result.success) {
+        published++;
+      } else if (result.skipped) {
+        skipped++;
+        if (result.blocked) blockedTargets.add(target);
+        continue;
+      } else {
+        failed++;
+      }
+
+      // Delay between posts to avoid rate limiting
+      await new Promise((resolve) => setTimeout(resolve, 5000));
     }
+  }
 
-    // Delay between posts to avoid rate limiting
-    await new Promise((resolve) => setTimeout(resolve, 5000));
+  if (seenIds.length === 0) {
+    return { published: 0, failed: 0, skipped: 0, results: [] };
   }
 
   // Log batch result
   await db.insert(systemEvents).values({
     eventType: "publish_batch_complete",
     severity: "info",
-    message: `Publish batch: ${published} published, ${failed} failed`,
-    metadata: { published, failed, skipped, count: duePosts.length },
+    message: `Publish batch: ${published} published, ${failed} failed, ${skipped} skipped`,
+    metadata: { published, failed, skipped, count: seenIds.length },
   });
 
   return { published, failed, skipped, results };
 }
 
 /**
- * Cancel a scheduled post
+ * Cancel a scheduled post (pending or awaiting review)
  */
 export async function cancelScheduledPost(id: number): Promise<boolean> {
   const result = await db
     .update(scheduledPosts)
     .set({ status: "cancelled" })
-    .where(and(eq(scheduledPosts.id, id), eq(scheduledPosts.status, "pending")));
+    .where(and(eq(scheduledPosts.id, id), inArray(scheduledPosts.status, queuedPostStatuses)));
+  await removeFromIndex("scheduled", id);
 
   return true;
 }
@@ -188,6 +378,8 @@ export async function cancelScheduledPost(id: number): Promise<boolean> {
  */
 export async function getQueueStatus(): Promise<{
   pending: number;
+  held: number; // pending posts waiting for an LLM safety check
+  awaitingReview: number; // drafts waiting for a reviewer (review mode)
   publishedToday: number;
   failedToday: number;
   nextScheduled?: Date;
@@ -195,10 +387,14 @@ export async function getQueueStatus(): Promise<{
   const today = new Date();
   today.setHours(0, 0, 0, 0);
 
-  const [pending, publishedToday, failedToday, nextScheduled] = await Promise.all([
+  const [pending, awaitingReview, publishedToday, failedToday, nextScheduled] = await Promise.all([
     db.query.scheduledPosts.findMany({
       where: eq(scheduledPosts.status, "pending"),
     }),
+    db.query.scheduledPosts.findMany({
+      where: eq(scheduledPosts.status, "awaiting_review"),
+      columns: { id: true },
+    }),
     db.query.publishedPosts.findMany({
       where: and(
         eq(publishedPosts.publishedAt as any, today)
@@ -218,6 +414,8 @@ export async function getQueueStatus(): Promise<{
 
   return {
     pending: pending.length,
+    held: pending.filter((p) => p.safetyPending).length,
+    awaitingReview: awaitingReview.length,
     publishedToday: publishedToday.length,
     failedToday: failedToday.length,
     nextScheduled: nextScheduled?.scheduledFor,
@@ -0,0 +1,90 @@
+import { db } from "@/lib/db";
+import { learningState, systemEvents } from "@/lib/db/schema";
+import { eq } from "drizzle-orm";
+
+export interface ReviewModeTarget {
+  scope: "platform" | "account";
+  platform?: "x" | "threads"; // scope "platform"
+  accountId?: number; // scope "account"
+}
+
+// learning_state "review_mode": platforms / accounts whose drafts wait for a reviewer
+interface ReviewModeState {
+  platforms?: Partial<Record<"x" | "threads", boolean>>;
+  accounts?: Record<string, boolean>;
+}
+
+const STATE_KEY = "review_mode";
+
+async function loadState(): Promise<ReviewModeState> {
+  const state = await db.query.learningState.findFirst({
+    where: eq(learningState.key, STATE_KEY),
+  });
+  return (state?.value as ReviewModeState | undefined) || {};
+}
+
+/**
+ * Review mode settings per platform and per account
+ */
+export async function listReviewModes(): Promise<{
+  platforms: Partial<Record<"x" | "threads", boolean>>;
+  accounts: Record<string, boolean>;
+}> {
+  const state = await loadState();
+  return { platforms: state.platforms || {}, accounts: state.accounts || {} };
+}
+
+/**
+ * Whether drafts for a platform / account wait for review: the account's setting over the
+ * platform's. Off unless turned on.
+ */
+export async function isReviewRequired(
+  platform: "x" | "threads",
+  accountId?: number | null
+): Promise<boolean> {
+  const { platforms, accounts } = await listReviewModes();
+  const accountSetting = accountId ? accounts[String(accountId)] : undefined;
+  return accountSetting ?? platforms[platform] ?? false;
+}
+
+/**
+ * Turn review mode on or off for a platform or account (with null, remove the setting so an
+ * account follows its platform again)
+ */
+export async function setReviewMode(
+  target: ReviewModeTarget,
+  enabled: boolean | null
+): Promise<void> {
+  const state = await loadState();
+
+  if (target.scope === "platform" && target.platform) {
+    const platforms = { ...state.platforms };
+    if (enabled === null) delete platforms[target.platform];
+    else platforms[target.platform] = enabled;
+    state.platforms = platforms;
+  } else if (target.scope === "account" && target.accountId) {
+    const accounts = { ...state.accounts };
+    if (enabled === null) delete accounts[String(target.accountId)];
+    else accounts[String(target.accountId)] = enabled;
+    state.accounts = accounts;
+  }
+
+  const existing = await db.query.learningState.findFirst({
+    where: eq(learningState.key, STATE_KEY),
+  });
+  if (existing) {
+    await db
+      .update(learningState)
+      .set({ value: state, updatedAt: new Date() })
+      .where(eq(learningState.id, existing.id));
+  } else {
+    await db.insert(learningState).values({ key: STATE_KEY, value: state });
+  }
+
+  await db.insert(systemEvents).values({
+    eventType: "review_mode_updated",
+    severity: "info",
+    message: `Review mode ${enabled === null ? "cleared" : enabled ? "on" : "off"} for ${target.scope} ${target.platform ?? target.accountId}`,
+    metadata: { ...target, enabled },
+  });
+}
@@ -0,0 +1,271 @@
+import { db } from "@/lib/db";
+import { scheduledPosts, systemEvents } from "@/lib/db/schema";
+import { config } from "@/lib/config";
+import { and, asc, eq } from "drizzle-orm";
+import { penalizeArm, relabelArmStyle } from "./bandit";
+import { dbBanditStore, loadAccountBanditStore } from "./bandit-store";
+import { runAllChecks, prepareContentForStorage, type PolicyCheckResult } from "./policy-engine";
+import { indexPost, removeFromIndex } from "./duplicate-index";
+import { generateDraft, scheduleDraft } from "./generator";
+import { classifyEmojiDensity, classifyLengthBucket } from "@/lib/utils/text-features";
+
+// Reject reason codes, with the share of REVIEW_REJECT_PENALTY each puts on the draft's arm.
+// Reasons that are not the arm's doing cost it less, or nothing.
+export const reviewRejectReasons = {
+  off_brand: 1, // ブランド・アカウントの方向性に合わない
+  inaccurate: 1, // 事実誤り・誤解を招く
+  compliance: 1, // 法令・規約上の懸念
+  low_quality: 1, // 内容が薄い・伝わらない
+  tone: 0.5, // 言い回し・トーン
+  duplicate: 0.5, // 既存の投稿と似ている
+  other: 0.5,
+  timing: 0, // 内容は良いが時期が合わない
+} as const;
+export type ReviewRejectReason = keyof typeof reviewRejectReasons;
+
+export type ScheduledPost = typeof scheduledPosts.$inferSelect;
+
+export type ReviewResult =
+  | { success: true; post: ScheduledPost }
+  | { success: false; error: string; failures?: PolicyCheckResult[] };
+
+const NOT_AWAITING = "Post is not awaiting review";
+
+async function logReview(
+  eventType: string,
+  message: string,
+  metadata: Record<string, unknown>,
+  severity: "info" | "warn" = "info"
+) {
+  await db.insert(systemEvents).values({ eventType, severity, message, metadata });
+}
+
+export async function getScheduledPost(id: number): Promise<ScheduledPost | undefined> {
+  return db.query.scheduledPosts.findFirst({ where: eq(scheduledPosts.id, id) });
+}
+
+/**
+ * Drafts waiting for a reviewer, earliest slot first
+ */
+export async function listAwaitingReview(
+  options: { platform?: "x" | "threads"; accountId?: number } = {}
+): Promise<ScheduledPost[]> {
+  return db.query.scheduledPosts.findMany({
+    where: and(
+      eq(scheduledPosts.status, "awaiting_review"),
+      options.platform ? eq(scheduledPosts.platform, options.platform) : undefined,
+      options.accountId ? eq(scheduledPosts.accountId, options.accountId) : undefined
+    ),
+    orderBy: asc(scheduledPosts.scheduledFor),
+  });
+}
+
+/**
+ * Release a draft to the publishing queue as it is
+ */
+export async function approvePost(id: number, note?: string): Promise<ReviewResult> {
+  const [post] = await db
+    .update(scheduledPosts)
+    .set({ status: "pending", reviewNote: note ?? null, reviewedAt: new Date() })
+    .where(and(eq(scheduledPosts.id, id), eq(scheduledPosts.status, "awaiting_review")))
+    .returning();
+  if (!post) return { success: false, error: NOT_AWAITING };
+
+  await logReview("review_approved", `Post ${id} approved`, { id, armId: post.armId, note });
+  return { success: true, post };
+}
+
+/**
+ * Replace a draft's content after re-running the policy checks on it (the draft itself is not
+ * counted as a duplicate or towards its slot's caps). Content that fails stays unchanged.
+ * The arm is re-labelled when the edit moves the post to another length / emoji bucket.
+ * With `approve`, the edited draft goes to the publishing queue.
+ */
+export async function editPost(
+  id: number,
+  content: string,
+  options: { approve?: boolean; note?: string } = {}
+): Promise<ReviewResult> {
+  const existing = await getScheduledPost(id);
+  if (!existing || existing.status !== "awaiting_review") {
+    return { success: false, error: NOT_AWAITING };
+  }
+
+  const platform = existing.platform as "x" | "threads";
+  const checks = await runAllChecks(content, platform, existing.accountId, {
+    scheduledFor: existing.scheduledFor,
+    excludeScheduledId: id,
+  });
+  if (!checks.passed) {
+    const reasons = checks.failures.map((f) => f.reason).join(", ");
+    await logReview(
+      "review_edit_rejected",
+      `Edit of post ${id} rejected: ${reasons}`,
+      { id, content, failures: checks.failures },
+      "warn"
+    );
+    return { success: false, error: reasons, failures: checks.failures };
+  }
+
+  const style = {
+    lengthBucket: classifyLengthBucket(content, platform),
+    emojiDensity: classifyEmojiDensity(content),
+  };
+  const armId =
+    existing.armId &&
+    (style.lengthBucket !== existing.lengthBucket || style.emojiDensity !== existing.emojiDensity)
+      ? relabelArmStyle(existing.armId, style)
+      : existing.armId;
+  const { contentHash, minhashSignature } = prepareContentForStorage(content);
+
+  const [post] = await db
+    .update(scheduledPosts)
+    .set({
+      content,
+      contentHash,
+      minhashSignature,
+      armId,
+      ...style,
+      safetyPending: checks.safetyHeld,
+      complianceFindings: checks.complianceFindings,
+      reviewNote: options.note ?? existing.reviewNote,
+      ...(options.approve ? { status: "pending", reviewedAt: new Date() } : {}),
+    })
+    .where(and(eq(scheduledPosts.id, id), eq(scheduledPosts.status, "awaiting_review")))
+    .returning();
+  if (!post) return { success: false, error: NOT_AWAITING };
+
+  await indexPost({
+    type: "scheduled",
+    id,
+    platform,
+    signature: minhashSignature,
+    postedAt: post.scheduledFor,
+  });
+
+  await logReview("review_edited", `Post ${id} edited${options.approve ? " and approved" : ""}`, {
+    id,
+    previousContent: existing.content,
+    content,
+    armId,
+    previousArmId: existing.armId,
+    warnings: checks.warnings,
+    approved: !!options.approve,
+  });
+  return { success: true, post };
+}
+
+/**
+ * Reject a draft. Its arm takes `reviewRejectReasons[reason] × REVIEW_REJECT_PENALTY` failures,
+ * pooled and on the account's own arms, like a reward of 0 without a pull.
+ */
+export async function rejectPost(
+  id: number,
+  reason: ReviewRejectReason,
+  note?: string
+): Promise<ReviewResult> {
+  const penalty = reviewRejectReasons[reason] * config.reviewRejectPenalty;
+
+  const [post] = await db
+    .update(scheduledPosts)
+    .set({
+      status: "rejected",
+      reviewReason: reason,
+      reviewNote: note ?? null,
+      reviewPenalty: penalty,
+      reviewedAt: new Date(),
+    })
+    .where(and(eq(scheduledPosts.id, id), eq(scheduledPosts.status, "awaiting_review")))
+    .returning();
+  if (!post) return { success: false, error: NOT_AWAITING };
+
+  await removeFromIndex("scheduled", id);
+
+  if (post.armId && penalty > 0) {
+    const stores = post.accountId
+      ? [dbBanditStore, await loadAccountBanditStore(post.accountId)]
+      : [dbBanditStore];
+    for (const store of stores) {
+      await penalizeArm(post.armId, post.platform, penalty, { store });
+    }
+  }
+
+  await logReview("review_rejected", `Post ${id} rejected (${reason})`, {
+    id,
+    platform: post.platform,
+    accountId: post.accountId,
+    armId: post.armId,
+    reason,
+    note,
+    penalty,
+  });
+  return { success: true, post };
+}
+
+/**
+ * Replace a draft with a newly generated one for the same slot (or the next few minutes if
+ * the slot has passed). With `reason`, the old draft is rejected with its penalty first, so
+ * the new arm is chosen with it; otherwise it is cancelled. A new draft that fails the policy
+ * checks leaves the slot empty for the schedule cron to fill.
+ */
+export async function regeneratePost(
+  id: number,
+  options: { reason?: ReviewRejectReason; note?: string } = {}
+): Promise<
+  | { success: true; replaced: ScheduledPost; post: ScheduledPost }
+  | { success: false; error: string; replaced?: ScheduledPost }
+> {
+  let replaced: ScheduledPost | undefined;
+  if (options.reason) {
+    const rejected = await rejectPost(id, options.reason, options.note);
+    if (!rejected.success) return { success: false, error: rejected.error };
+    replaced = rejected.post;
+  } else {
+    [replaced] = await db
+      .update(scheduledPosts)
+      .set({
+        status: "cancelled",
+        reviewReason: "regenerated",
+        reviewNote: options.note ?? null,
+        reviewedAt: new Date(),
+      })
+      .where(and(eq(scheduledPosts.id, id), eq(scheduledPosts.status, "awaiting_review")))
+      .returning();
+    if (!replaced) return { success: false, error: NOT_AWAITING };
+    await removeFromIndex("scheduled", id);
+  }
+
+  const platform = replaced.platform as "x" | "threads";
+  const accountId = replaced.accountId ?? undefined;
+  const slot = new Date(Math.max(replaced.scheduledFor.getTime(), Date.now() + 5 * 60 * 1000));
+
+  const draft = await generateDraft(platform, {
+    scheduledFor: slot,
+    store: await loadAccountBanditStore(accountId),
+    accountId,
+  });
+  if (!draft.success || !draft.post) {
+    const error = draft.error || "Generation failed";
+    await logReview(
+      "review_regenerate_failed",
+      `Regenerating post ${id} failed: ${error}`,
+      { id, platform, accountId, error },
+      "warn"
+    );
+    return { success: false, error, replaced };
+  }
+
+  const scheduled = await scheduleDraft(platform, draft.post, slot, accountId);
+  const post = (await getScheduledPost(scheduled.id))!;
+
+  await logReview("review_regenerated", `Post ${id} regenerated as ${post.id}`, {
+    id,
+    newId: post.id,
+    platform,
+    accountId,
+    previousArmId: replaced.armId,
+    armId: post.armId,
+    reason: options.reason,
+  });
+  return { success: true, replaced, post };
+}
@@ -0,0 +1,255 @@
+import { db } from "@/lib/db";
+import { rewardDefinitions, systemEvents, type Metric } from "@/lib/db/schema";
+import { eq, and, desc } from "drizzle-orm";
+
+export type RewardSignal =
+  | "impressions"
+  | "likes"
+  | "reposts"
+  | "replies"
+  | "quotes"
+  | "profileVisits"
+  | "engagementRate";
+
+export const rewardSignals: readonly RewardSignal[] = [
+  "impressions",
+  "likes",
+  "reposts",
+  "replies",
+  "quotes",
+  "profileVisits",
+  "engagementRate",
+];
+
+export interface RewardDefinition {
+  name: string;
+  version: number;
+  description?: string | null;
+  weights: Record<"x" | "threads", Partial<Record<RewardSignal, number>>>;
+}
+
+/**
+ * Built-in reward formulas. The first one reproduces the original log(1 + impressions) reward.
+ */
+export const builtinRewardDefinitions: RewardDefinition[] = [
+  {
+    name: "impressions",
+    version: 1,
+    description: "インプレッション重視: log(1 + impressions)",
+    weights: {
+      x: { impressions: 1 },
+      threads: { impressions: 1 },
+    },
+  },
+  {
+    name: "engagement",
+    version: 1,
+    description: "エンゲージメント率重視",
+    weights: {
+      x: { engagementRate: 0.5, likes: 0.5, reposts: 0.8, replies: 0.8, quotes: 0.8 },
+      threads: { engagementRate: 0.5, likes: 0.5, reposts: 0.8, replies: 0.8, quotes: 0.8 },
+    },
+  },
+  {
+    name: "follower_acquisition",
+    version: 1,
+    description: "フォロワー獲得重視（採用強化期向け）",
+    weights: {
+      x: { profileVisits: 1.5, impressions: 0.3, replies: 0.3 },
+      threads: { impressions: 0.3, replies: 0.5, reposts: 0.5 },
+    },
+  },
+];
+
+const DEFAULT_REWARD_DEFINITION = builtinRewardDefinitions[0];
+
+/**
+ * Key recorded on metrics rows and in the learning ledger
+ */
+export function getRewardKey(definition: Pick<RewardDefinition, "name" | "version">): string {
+  return `${definition.name}:v${definition.version}`;
+}
+
+type RewardMetricFields = Pick<
+  Metric,
+  | "impressionCount"
+  | "likeCount"
+  | "repostCount"
+  | "replyCount"
+  | "quoteCount"
+  | "profileVisits"
+  | "threadsLikes"
+  | "threadsReposts"
+  | "threadsReplies"
+  | "threadsQuotes"
+>;
+
+/**
+ * Extract raw reward signals from a metrics row for either platform
+ */
+export function getRewardSignals(metric: Partial<RewardMetricFields>): Record<RewardSignal, number> {
+  const impressions = metric.impressionCount || 0;
+  const likes = metric.likeCount ?? metric.threadsLikes ?? 0;
+  const reposts = metric.repostCount ?? metric.threadsReposts ?? 0;
+  const replies = metric.replyCount ?? metric.threadsReplies ?? 0;
+  const quotes = metric.quoteCount ?? metric.threadsQuotes ?? 0;
+
+  return {
+    impressions,
+    likes,
+    reposts,
+    replies,
+    quotes,
+    profileVisits: metric.profileVisits || 0,
+    engagementRate: impressions > 0 ? (likes + reposts + replies + quotes) / impressions : 0,
+  };
+}
+
+/**
+ * Calculate reward from metrics signals using a reward definition.
+ * Count signals are log-scaled; engagement rate is scaled to percent.
+ */
+export function calculateReward(
+  signals: Record<RewardSignal, number>,
+  platform: "x" | "threads",
+  definition: RewardDefinition = DEFAULT_REWARD_DEFINITION,
+  penalties: { duplicate?: boolean; lowQuality?: boolean; overPosting?: boolean } = {}
+): number {
+  const weights = definition.weights[platform] || {};
+
+  let reward = 0;
+  for (const signal of rewardSignals) {
+    const weight = weights[signal];
+    if (!weight) continue;
+    const value =
+      signal === "engagementRate" ? signals[signal] * 100 : Math.log(1 + signals[signal]);
+    reward += weight * value;
+  }
+
+  // Apply penalties
+  if (penalties.duplicate) reward -= 2;
+  if (penalties.lowQuality) reward -= 1;
+  if (penalties.overPosting) reward -= 0.5;
+
+  return Math.max(0, reward);
+}
+
+/**
+ * Get the reward definition currently active in the DB (falls back to impressions v1)
+ */
+export async function getActiveRewardDefinition(): Promise<RewardDefinition> {
+  const active = await db.query.rewardDefinitions.findFirst({
+    where: eq(rewardDefinitions.isActive, true),
+    orderBy: desc(rewardDefinitions.createdAt),
+  });
+
+  if (!active) return DEFAULT_REWARD_DEFINITION;
+
+  return {
+    name: active.name,
+    version: active.version,
+    description: active.description,
+    weights: active.weights as RewardDefinition["weights"],
+  };
+}
+
+/**
+ * List stored and built-in reward definitions
+ */
+export async function listRewardDefinitions(): Promise<
+  Array<RewardDefinition & { key: string; isActive: boolean; stored: boolean }>
+> {
+  type Listed = RewardDefinition & { key: string; isActive: boolean; stored: boolean };
+
+  const stored = await db.query.rewardDefinitions.findMany({
+    orderBy: [rewardDefinitions.name, desc(rewardDefinitions.version)],
+  });
+  const active = await getActiveRewardDefinition();
+  const activeKey = getRewardKey(active);
+
+  const result: Listed[] = stored.map((d) => ({
+    name: d.name,
+    version: d.version,
+    description: d.description,
+    weights: d.weights as RewardDefinition["weights"],
+    key: getRewardKey(d),
+    isActive: getRewardKey(d) === activeKey,
+    stored: true,
+  }));
+
+  for (const builtin of builtinRewardDefinitions) {
+    const key = getRewardKey(builtin);
+    if (!result.some((d) => d.key === key)) {
+      result.push({ ...builtin, key, isActive: key === activeKey, stored: false });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Create a new version of a reward definition (version = latest + 1)
+ */
+export async function createRewardDefinition(params: {
+  name: string;
+  description?: string;
+  weights: RewardDefinition["weights"];
+}): Promise<RewardDefinition> {
+  const latest = await db.query.rewardDefinitions.findFirst({
+    where: eq(rewardDefinitions.name, params.name),
+    orderBy: desc(rewardDefinitions.version),
+  });
+  const builtinVersion = builtinRewardDefinitions.find((d) => d.name === params.name)?.version || 0;
+  const version = Math.max(latest?.version || 0, builtinVersion) + 1;
+
+  await db.insert(rewardDefinitions).values({
+    name: params.name,
+    version,
+    description: params.description,
+    weights: params.weights,
+    isActive: false,
+  });
+
+  return { ...params, version };
+}
+
+/**
+ * Make one reward definition active. Built-ins are stored on first activation.
+ */
+export async function activateRewardDefinition(name: string, version: number): Promise<boolean> {
+  let target = await db.query.rewardDefinitions.findFirst({
+    where: and(eq(rewardDefinitions.name, name), eq(rewardDefinitions.version, version)),
+  });
+
+  if (!target) {
+    const builtin = builtinRewardDefinitions.find(
+      (d) => d.name === name && d.version === version
+    );
+    if (!builtin) return false;
+
+    [target] = await db
+      .insert(rewardDefinitions)
+      .values({
+        name: builtin.name,
+        version: builtin.version,
+        description: builtin.description,
+        weights: builtin.weights,
+      })
+      .returning();
+  }
+
+  await db.update(rewardDefinitions).set({ isActive: false });
+  await db
+    .update(rewardDefinitions)
+    .set({ isActive: true })
+    .where(eq(rewardDefinitions.id, target.id));
+
+  await db.insert(systemEvents).values({
+    eventType: "reward_definition_activated",
+    severity: "info",
+    message: `Reward definition activated: ${getRewardKey(target)}`,
+    metadata: { name, version },
+  });
+
+  return true;
+}
@@ -1,8 +1,14 @@
 import { db } from "@/lib/db";
-import { templateWeights, systemEvents } from "@/lib/db/schema";
+import { accounts, metrics, publishedPosts, templateWeights, systemEvents } from "@/lib/db/schema";
 import { getPatternDistribution } from "./pattern-miner";
-import { eq, and, gte } from "drizzle-orm";
+import { eq, and, gte, or, inArray, isNull } from "drizzle-orm";
 import { config } from "@/lib/config";
+import { createSnapshot } from "./bandit-snapshots";
+import { calculateReward, getActiveRewardDefinition, getRewardSignals } from "./reward";
+import { classifyLengthBucket, classifyEmojiDensity } from "@/lib/utils/text-features";
+
+// An account's own posts considered when adjusting its weights
+const ACCOUNT_HISTORY_DAYS = 28;
 
 /**
  * Get the start of the current week (Monday)
@@ -38,6 +44,9 @@ export async function synthesizeTemplates(): Promise<{
   const results = { updated: 0, created: 0 };
   const weekStart = getWeekStart();
 
+  // Keep the weights being replaced recoverable
+  await createSnapshot("pre_synthesize");
+
   // Log start
   await db.insert(systemEvents).values({
     eventType: "template_synthesize_start",
@@ -52,7 +61,9 @@ export async function synthesizeTemplates(): Promise<{
   const hasPatterns = 
     Object.keys(distribution.formats).length > 0 ||
     Object.keys(distribution.hookTypes).length > 0 ||
-    Object.keys(distribution.payloadTypes).length > 0;
+    Object.keys(distribution.payloadTypes).length > 0 ||
+    Object.keys(distribution.lengthBuckets).length > 0 ||
+    Object.keys(distribution.emojiDensities).length > 0;
 
   if (!hasPatterns) {
     // No patterns available - initialize with default weights (1.0) for all platforms and formats
@@ -104,6 +115,38 @@ export async function synthesizeTemplates(): Promise<{
         });
         results.created++;
       }
+
+      // Length bucket weights
+      for (const lengthBucket of config.lengthBuckets) {
+        await upsertWeight({
+          weekStart,
+          platform,
+          format: null,
+          hookType: null,
+          payloadType: null,
+          lengthBucket,
+          weight: 1.0, // Default weight
+          sampleCount: 0,
+          avgBuzzScore: 0,
+        });
+        results.created++;
+      }
+
+      // Emoji density weights
+      for (const emojiDensity of config.emojiDensities) {
+        await upsertWeight({
+          weekStart,
+          platform,
+          format: null,
+          hookType: null,
+          payloadType: null,
+          emojiDensity,
+          weight: 1.0, // Default weight
+          sampleCount: 0,
+          avgBuzzScore: 0,
+        });
+        results.created++;
+      }
     }
     
     await db.insert(systemEvents).values({
@@ -122,6 +165,14 @@ export async function synthesizeTemplates(): Promise<{
     ...Object.values(distribution.payloadTypes).map((p) => p.avgBuzz),
     0.01
   );
+  const maxLengthBuzz = Math.max(
+    ...Object.values(distribution.lengthBuckets).map((l) => l.avgBuzz),
+    0.01
+  );
+  const maxEmojiBuzz = Math.max(
+    ...Object.values(distribution.emojiDensities).map((e) => e.avgBuzz),
+    0.01
+  );
 
   // Update weights for each platform (even if distribution is empty, defaults will be used)
   for (const platform of ["x", "threads"] as const) {
@@ -181,6 +232,46 @@ export async function synthesizeTemplates(): Promise<{
       });
       results.created++;
     }
+
+    // Length bucket weights
+    for (const lengthBucket of config.lengthBuckets) {
+      const data = distribution.lengthBuckets[lengthBucket] || { count: 0, avgBuzz: 0 };
+      // If no data, use default weight (1.0)
+      const weight = data.count === 0 ? 1.0 : calculateWeight(data.avgBuzz, data.count, maxLengthBuzz);
+
+      await upsertWeight({
+        weekStart,
+        platform,
+        format: null,
+        hookType: null,
+        payloadType: null,
+        lengthBucket,
+        weight,
+        sampleCount: data.count,
+        avgBuzzScore: data.avgBuzz,
+      });
+      results.created++;
+    }
+
+    // Emoji density weights
+    for (const emojiDensity of config.emojiDensities) {
+      const data = distribution.emojiDensities[emojiDensity] || { count: 0, avgBuzz: 0 };
+      // If no data, use default weight (1.0)
+      const weight = data.count === 0 ? 1.0 : calculateWeight(data.avgBuzz, data.count, maxEmojiBuzz);
+
+      await upsertWeight({
+        weekStart,
+        platform,
+        format: null,
+        hookType: null,
+        payloadType: null,
+        emojiDensity,
+        weight,
+        sampleCount: data.count,
+        avgBuzzScore: data.avgBuzz,
+      });
+      results.created++;
+    }
   }
 
   // Log completion
@@ -194,6 +285,115 @@ export async function synthesizeTemplates(): Promise<{
   return results;
 }
 
+/**
+ * Derive each active account's template weights from the shared ones, scaled by how the
+ * account's own audience responds to each format / hook / length / emoji density
+ * (24h rewards of its posts over the last 4 weeks). The lift is shrunk toward 1 by
+ * `config.accountWeightShrinkage`, so an account with few posts stays near the shared weights.
+ */
+export async function synthesizeAccountWeights(): Promise<{
+  accounts: number;
+  created: number;
+}> {
+  const results = { accounts: 0, created: 0 };
+  const weekStart = getWeekStart();
+  const cutoff = new Date(Date.now() - ACCOUNT_HISTORY_DAYS * 24 * 60 * 60 * 1000);
+  const rewardDefinition = await getActiveRewardDefinition();
+
+  const activeAccounts = await db.query.accounts.findMany({
+    where: eq(accounts.isActive, true),
+    columns: { id: true, platform: true },
+  });
+
+  for (const account of activeAccounts) {
+    const platform = account.platform as "x" | "threads";
+    const posts = await db.query.publishedPosts.findMany({
+      where: and(
+        eq(publishedPosts.accountId, account.id),
+        gte(publishedPosts.publishedAt, cutoff)
+      ),
+      columns: { id: true, content: true, format: true, hookType: true },
+    });
+    if (posts.length === 0) continue;
+
+    const postMetrics = await db.query.metrics.findMany({
+      where: and(
+        inArray(
+          metrics.publishedPostId,
+          posts.map((p) => p.id)
+        ),
+        eq(metrics.hoursAfterPublish, 24)
+      ),
+    });
+    const rewardByPost = new Map(
+      postMetrics.map((m) => [
+        m.publishedPostId,
+        calculateReward(getRewardSignals(m), platform, rewardDefinition),
+      ])
+    );
+    const rewarded = posts.filter((p) => rewardByPost.has(p.id));
+    const overall =
+      rewarded.reduce((sum, p) => sum + rewardByPost.get(p.id)!, 0) / (rewarded.length || 1);
+    if (rewarded.length === 0 || overall <= 0) continue;
+
+    const shared = await getCurrentWeights(platform);
+    const dimensions = [
+      { key: "format", weights: shared.formats, classify: (p: (typeof posts)[number]) => p.format },
+      { key: "hookType", weights: shared.hookTypes, classify: (p: (typeof posts)[number]) => p.hookType },
+      {
+        key: "lengthBucket",
+        weights: shared.lengthBuckets,
+        classify: (p: (typeof posts)[number]) => classifyLengthBucket(p.content, platform),
+      },
+      {
+        key: "emojiDensity",
+        weights: shared.emojiDensities,
+        classify: (p: (typeof posts)[number]) => classifyEmojiDensity(p.content),
+      },
+    ] as const;
+
+    for (const dimension of dimensions) {
+      const rewardsByValue = new Map<string, number[]>();
+      for (const post of rewarded) {
+        const value = dimension.classify(post);
+        if (!value) continue;
+        rewardsByValue.set(value, [...(rewardsByValue.get(value) || []), rewardByPost.get(post.id)!]);
+      }
+
+      for (const [value, rewards] of rewardsByValue) {
+        const avgReward = rewards.reduce((sum, r) => sum + r, 0) / rewards.length;
+        const shrink = rewards.length / (rewards.length + config.accountWeightShrinkage);
+        const lift = 1 + shrink * (avgReward / overall - 1);
+
+        await upsertWeight({
+          weekStart,
+          platform,
+          format: dimension.key === "format" ? value : null,
+          hookType: dimension.key === "hookType" ? value : null,
+          payloadType: null,
+          lengthBucket: dimension.key === "lengthBucket" ? value : null,
+          emojiDensity: dimension.key === "emojiDensity" ? value : null,
+          accountId: account.id,
+          weight: (dimension.weights[value] ?? 1.0) * lift,
+          sampleCount: rewards.length,
+          avgBuzzScore: avgReward,
+        });
+        results.created++;
+      }
+    }
+    results.accounts++;
+  }
+
+  await db.insert(systemEvents).values({
+    eventType: "template_synthesize_accounts",
+    severity: "info",
+    message: `Account template weights: ${results.created} weights for ${results.accounts} accounts`,
+    metadata: results,
+  });
+
+  return results;
+}
+
 /**
  * Upsert a template weight
  */
@@ -203,6 +403,9 @@ async function upsertWeight(params: {
   format: string | null;
   hookType: string | null;
   payloadType: string | null;
+  lengthBucket?: string | null;
+  emojiDensity?: string | null;
+  accountId?: number;
   weight: number;
   sampleCount: number;
   avgBuzzScore: number;
@@ -212,9 +415,14 @@ async function upsertWeight(params: {
     where: and(
       eq(templateWeights.weekStart, params.weekStart),
       eq(templateWeights.platform, params.platform),
+      params.accountId
+        ? eq(templateWeights.accountId, params.accountId)
+        : isNull(templateWeights.accountId),
       params.format ? eq(templateWeights.format, params.format) : undefined,
       params.hookType ? eq(templateWeights.hookType, params.hookType) : undefined,
-      params.payloadType ? eq(templateWeights.payloadType, params.payloadType) : undefined
+      params.payloadType ? eq(templateWeights.payloadType, params.payloadType) : undefined,
+      params.lengthBucket ? eq(templateWeights.lengthBucket, params.lengthBucket) : undefined,
+      params.emojiDensity ? eq(templateWeights.emojiDensity, params.emojiDensity) : undefined
     ),
   });
 
@@ -235,6 +443,9 @@ async function upsertWeight(params: {
       format: params.format,
       hookType: params.hookType,
       payloadType: params.payloadType,
+      lengthBucket: params.lengthBucket,
+      emojiDensity: params.emojiDensity,
+      accountId: params.accountId ?? null,
       weight: params.weight,
       sampleCount: params.sampleCount,
       avgBuzzScore: params.avgBuzzScore,
@@ -243,38 +454,58 @@ async function upsertWeight(params: {
 }
 
 /**
- * Get current template weights for a platform
+ * Get current template weights for a platform.
+ * An account's own weights take precedence over the shared ones where it has them.
  */
-export async function getCurrentWeights(platform: "x" | "threads"): Promise<{
+export async function getCurrentWeights(
+  platform: "x" | "threads",
+  accountId?: number
+): Promise<{
   formats: Record<string, number>;
   hookTypes: Record<string, number>;
   payloadTypes: Record<string, number>;
+  lengthBuckets: Record<string, number>;
+  emojiDensities: Record<string, number>;
 }> {
   const weekStart = getWeekStart();
 
-  const weights = await db.query.templateWeights.findMany({
+  const rows = await db.query.templateWeights.findMany({
     where: and(
       eq(templateWeights.platform, platform),
-      gte(templateWeights.weekStart, weekStart)
+      gte(templateWeights.weekStart, weekStart),
+      accountId
+        ? or(isNull(templateWeights.accountId), eq(templateWeights.accountId, accountId))
+        : isNull(templateWeights.accountId)
     ),
   });
+  // Shared weights first so the account's own override them
+  const weights = [
+    ...rows.filter((w) => w.accountId === null),
+    ...rows.filter((w) => w.accountId !== null),
+  ];
 
   const formats: Record<string, number> = {};
   const hookTypes: Record<string, number> = {};
   const payloadTypes: Record<string, number> = {};
+  const lengthBuckets: Record<string, number> = {};
+  const emojiDensities: Record<string, number> = {};
 
   // Initialize with defaults
   for (const f of config.formats) formats[f] = 1.0;
   for (const h of config.hookTypes) hookTypes[h] = 1.0;
   for (const p of config.payloadTypes) payloadTypes[p] = 1.0;
+  for (const l of config.lengthBuckets) lengthBuckets[l] = 1.0;
+  for (const e of config.emojiDensities) emojiDensities[e] = 1.0;
 
   // Apply learned weights
   for (const w of weights) {
     if (w.format) formats[w.format] = w.weight;
     if (w.hookType) hookTypes[w.hookType] = w.weight;
     if (w.payloadType) payloadTypes[w.payloadType] = w.weight;
+    if (w.lengthBucket) lengthBuckets[w.lengthBucket] = w.weight;
+    if (w.emojiDensity) emojiDensities[w.emojiDensity] = w.weight;
   }
 
-  return { formats, hookTypes, payloadTypes };
+  return { formats, hookTypes, payloadTypes, lengthBuckets, emojiDensities };
 }
 
@@ -0,0 +1,353 @@
+import { db } from "@/lib/db";
+import { externalPosts, systemEvents, topics } from "@/lib/db/schema";
+import { config } from "@/lib/config";
+import { eq, and, gte, asc, desc } from "drizzle-orm";
+
+export const topicStatuses = ["active", "proposed", "retired"] as const;
+export type TopicStatus = (typeof topicStatuses)[number];
+
+interface TopicCluster {
+  name: string;
+  keywords: string[];
+  postIds: number[];
+  avgBuzzScore: number;
+}
+
+// Phrases shorter/longer than this are not treated as topics
+const MIN_PHRASE_LENGTH = 2;
+const MAX_PHRASE_LENGTH = 20;
+
+// Kanji compounds are also split into character n-grams up to this length
+const MAX_KANJI_NGRAM = 6;
+
+// Phrases considered for clustering per run (by document frequency)
+const MAX_CANDIDATE_PHRASES = 200;
+
+// Share of a phrase's posts that must overlap a cluster to join it
+const CLUSTER_OVERLAP = 0.7;
+
+// New proposals per run
+const MAX_PROPOSALS = 20;
+
+// Cap on keywords and example posts kept per topic
+const MAX_KEYWORDS = 20;
+const MAX_EXAMPLES = 5;
+
+// Generic nouns that recur in every kind of post
+const STOPWORDS = new Set([
+  "自分", "今日", "明日", "昨日", "本当", "毎日", "最近", "今回", "前回", "一番",
+  "全部", "普通", "絶対", "結果", "問題", "必要", "大事", "大切", "場合", "意味",
+  "理由", "以上", "以下", "時間", "仕事", "情報", "方法", "簡単", "最高", "最強",
+  "注意", "確認", "紹介", "今年", "来年", "今月", "来月", "皆様", "皆さん", "一緒",
+  "RT", "PR",
+]);
+
+// Kanji, katakana and Latin letters/digits: the characters Japanese noun phrases are written in.
+// Built via RegExp so the ES2017 target accepts the Unicode property escapes.
+const PHRASE_PATTERN = new RegExp("[\\p{Script=Han}\\p{Script=Katakana}ー々A-Za-z0-9]+", "gu");
+const SCRIPT_PART_PATTERN = new RegExp(
+  "[\\p{Script=Han}々]+|[\\p{Script=Katakana}ー]+|[A-Za-z0-9]+",
+  "gu"
+);
+const KANJI_PATTERN = new RegExp("^[\\p{Script=Han}々]+$", "u");
+
+function isCandidatePhrase(phrase: string): boolean {
+  const length = [...phrase].length;
+  return (
+    length >= MIN_PHRASE_LENGTH &&
+    length <= MAX_PHRASE_LENGTH &&
+    !/^[0-9]+$/.test(phrase) &&
+    !/^ー+$/.test(phrase) &&
+    !STOPWORDS.has(phrase)
+  );
+}
+
+/**
+ * Extract noun-like phrases from Japanese text.
+ * Hiragana and punctuation act as separators (particles, okurigana), so what remains are
+ * runs of kanji/katakana/Latin; mixed-script runs also yield their single-script parts
+ * (e.g. 軽貨物ドライバー -> 軽貨物ドライバー, 軽貨物, ドライバー), and kanji compounds
+ * their character n-grams (燃料費高騰 -> 燃料, 燃料費, 高騰, ...).
+ */
+export function extractPhrases(text: string): string[] {
+  const cleaned = text
+    .normalize("NFKC")
+    .replace(/https?:\/\/\S+/g, " ")
+    .replace(/@\w+/g, " ")
+    .replace(/#/g, " ");
+
+  const phrases = new Set<string>();
+  for (const run of cleaned.match(PHRASE_PATTERN) || []) {
+    if (isCandidatePhrase(run)) phrases.add(run);
+
+    const parts = run.match(SCRIPT_PART_PATTERN) || [];
+    for (const part of parts) {
+      if (parts.length > 1 && isCandidatePhrase(part)) phrases.add(part);
+
+      const chars = [...part];
+      if (!KANJI_PATTERN.test(part) || chars.length <= MIN_PHRASE_LENGTH) continue;
+      for (let n = MIN_PHRASE_LENGTH; n <= Math.min(MAX_KANJI_NGRAM, chars.length - 1); n++) {
+        for (let i = 0; i + n <= chars.length; i++) {
+          const gram = chars.slice(i, i + n).join("");
+          if (isCandidatePhrase(gram)) phrases.add(gram);
+        }
+      }
+    }
+  }
+
+  return [...phrases];
+}
+
+/**
+ * Group recurring phrases into topic clusters.
+ * Phrases are taken by document frequency; one joins an existing cluster when it
+ * contains/is contained in the cluster's name or mostly appears in the same posts.
+ */
+export function clusterPhrases(
+  posts: Array<{ id: number; text: string; buzzScore: number | null }>,
+  options: { minExamples?: number; maxDocumentShare?: number } = {}
+): TopicCluster[] {
+  const minExamples = options.minExamples ?? config.topicMinExamples;
+  const maxDocumentShare = options.maxDocumentShare ?? config.topicMaxDocumentShare;
+
+  // phrase -> posts containing it
+  const postsByPhrase = new Map<string, Set<number>>();
+  const buzzByPost = new Map<number, number>();
+  for (const post of posts) {
+    buzzByPost.set(post.id, post.buzzScore || 0);
+    for (const phrase of extractPhrases(post.text)) {
+      const ids = postsByPhrase.get(phrase) || new Set<number>();
+      ids.add(post.id);
+      postsByPhrase.set(phrase, ids);
+    }
+  }
+
+  // Too rare to be a trend, or so common it is the domain itself (e.g. 軽貨物)
+  const maxDocuments = Math.max(minExamples, Math.floor(posts.length * maxDocumentShare));
+  const frequent = [...postsByPhrase.entries()]
+    .filter(([, ids]) => ids.size >= minExamples && ids.size <= maxDocuments)
+    .sort(([a, aIds], [b, bIds]) => bIds.size - aIds.size || b.length - a.length)
+    .slice(0, MAX_CANDIDATE_PHRASES * 2);
+
+  // An n-gram seen exactly as often as a longer phrase containing it is only a fragment of it
+  const candidates = frequent
+    .filter(
+      ([phrase, ids]) =>
+        !frequent.some(
+          ([other, otherIds]) =>
+            other.length > phrase.length && other.includes(phrase) && otherIds.size === ids.size
+        )
+    )
+    .slice(0, MAX_CANDIDATE_PHRASES);
+
+  const clusters: Array<{ name: string; keywords: string[]; postIds: Set<number> }> = [];
+  for (const [phrase, ids] of candidates) {
+    const cluster = clusters.find((c) => {
+      if (c.name.includes(phrase) || phrase.includes(c.name)) return true;
+      const overlap = [...ids].filter((id) => c.postIds.has(id)).length;
+      return overlap / ids.size >= CLUSTER_OVERLAP;
+    });
+
+    if (cluster) {
+      cluster.keywords.push(phrase);
+      for (const id of ids) cluster.postIds.add(id);
+    } else {
+      clusters.push({ name: phrase, keywords: [phrase], postIds: new Set(ids) });
+    }
+  }
+
+  return clusters
+    .map((c) => {
+      const postIds = [...c.postIds].sort(
+        (a, b) => (buzzByPost.get(b) || 0) - (buzzByPost.get(a) || 0)
+      );
+      return {
+        name: c.name,
+        keywords: c.keywords.slice(0, MAX_KEYWORDS),
+        postIds,
+        avgBuzzScore:
+          postIds.reduce((sum, id) => sum + (buzzByPost.get(id) || 0), 0) / postIds.length,
+      };
+    })
+    .sort((a, b) => b.postIds.length - a.postIds.length);
+}
+
+/**
+ * Seed the catalog with config.topics (as active) the first time it is used
+ */
+async function ensureTopicCatalog(): Promise<void> {
+  const existing = await db.query.topics.findFirst({ columns: { id: true } });
+  if (existing) return;
+
+  await db
+    .insert(topics)
+    .values(
+      config.topics.map((name) => ({
+        name,
+        status: "active",
+        source: "seed",
+        keywords: [name],
+      }))
+    )
+    .onConflictDoNothing();
+}
+
+/**
+ * Topics the bandit may select from. Falls back to config.topics if none are active.
+ */
+export async function getActiveTopics(): Promise<string[]> {
+  await ensureTopicCatalog();
+
+  const active = await db.query.topics.findMany({
+    where: eq(topics.status, "active"),
+    columns: { name: true },
+    orderBy: asc(topics.id),
+  });
+
+  return active.length > 0 ? active.map((t) => t.name) : [...config.topics];
+}
+
+/**
+ * List the topic catalog, optionally by status
+ */
+export async function listTopics(status?: TopicStatus) {
+  await ensureTopicCatalog();
+
+  return db.query.topics.findMany({
+    where: status ? eq(topics.status, status) : undefined,
+    orderBy: [asc(topics.status), desc(topics.exampleCount)],
+  });
+}
+
+/**
+ * Move a topic between active, proposed and retired
+ */
+export async function setTopicStatus(name: string, status: TopicStatus) {
+  const [updated] = await db
+    .update(topics)
+    .set({ status, updatedAt: new Date() })
+    .where(eq(topics.name, name))
+    .returning();
+
+  if (updated) {
+    await db.insert(systemEvents).values({
+      eventType: "topic_status_changed",
+      severity: "info",
+      message: `Topic ${name} set to ${status}`,
+      metadata: { topicId: updated.id, name, status },
+    });
+  }
+
+  return updated;
+}
+
+/**
+ * Add a topic by hand; it is active immediately
+ */
+export async function addTopic(name: string, keywords: string[] = []) {
+  await ensureTopicCatalog();
+
+  const existing = await db.query.topics.findFirst({ where: eq(topics.name, name) });
+  if (existing) return setTopicStatus(name, "active");
+
+  const [created] = await db
+    .insert(topics)
+    .values({
+      name,
+      status: "active",
+      source: "manual",
+      keywords: [...new Set([name, ...keywords])],
+    })
+    .returning();
+
+  return created;
+}
+
+/**
+ * Mine recurring phrases from recent buzz posts and update the topic catalog.
+ * Clusters matching a catalog topic refresh its evidence (status unchanged);
+ * new ones are added as proposed for review.
+ */
+export async function discoverTopics(days: number = config.topicDiscoveryDays): Promise<{
+  posts: number;
+  clusters: number;
+  updated: number;
+  proposed: string[];
+}> {
+  const results = { posts: 0, clusters: 0, updated: 0, proposed: [] as string[] };
+  const cutoff = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+  await ensureTopicCatalog();
+
+  const posts = await db.query.externalPosts.findMany({
+    where: and(
+      eq(externalPosts.isSpamSuspect, false),
+      eq(externalPosts.isJapanese, true),
+      gte(externalPosts.collectedAt, cutoff)
+    ),
+    columns: { id: true, text: true, buzzScore: true },
+  });
+  results.posts = posts.length;
+
+  const clusters = clusterPhrases(posts);
+  results.clusters = clusters.length;
+
+  const catalog = await db.query.topics.findMany();
+  const now = new Date();
+
+  for (const cluster of clusters) {
+    const match = catalog.find(
+      (topic) =>
+        cluster.keywords.includes(topic.name) ||
+        (topic.keywords || []).some((keyword) => cluster.keywords.includes(keyword)) ||
+        topic.name.includes(cluster.name)
+    );
+
+    const evidence = {
+      exampleCount: cluster.postIds.length,
+      avgBuzzScore: cluster.avgBuzzScore,
+      examplePostIds: cluster.postIds.slice(0, MAX_EXAMPLES),
+      lastSeenAt: now,
+      updatedAt: now,
+    };
+
+    if (match) {
+      await db
+        .update(topics)
+        .set({
+          ...evidence,
+          keywords: [...new Set([...(match.keywords || []), ...cluster.keywords])].slice(
+            0,
+            MAX_KEYWORDS
+          ),
+        })
+        .where(eq(topics.id, match.id));
+      results.updated++;
+    } else if (results.proposed.length < MAX_PROPOSALS) {
+      const [created] = await db
+        .insert(topics)
+        .values({
+          name: cluster.name,
+          status: "proposed",
+          source: "mined",
+          keywords: cluster.keywords,
+          ...evidence,
+        })
+        .onConflictDoNothing()
+        .returning();
+      if (created) {
+        catalog.push(created);
+        results.proposed.push(created.name);
+      }
+    }
+  }
+
+  await db.insert(systemEvents).values({
+    eventType: "topic_discovery_complete",
+    severity: "info",
+    message: `Topic discovery: ${results.proposed.length} proposed, ${results.updated} updated from ${results.posts} posts`,
+    metadata: results,
+  });
+
+  return results;
+}
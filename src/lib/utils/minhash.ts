@@ -0,0 +1,77 @@
+import crypto from "crypto";
+import { normalizeForDuplicates } from "./text-normalize";
+
+// MinHash implementation for similarity detection
+export class MinHash {
+  private numPerm: number;
+  private hashValues: number[];
+
+  constructor(numPerm: number = 128) {
+    this.numPerm = numPerm;
+    this.hashValues = new Array(numPerm).fill(Infinity);
+  }
+
+  // Generate shingles from text
+  private getShingles(text: string, k: number = 3): Set<string> {
+    const shingles = new Set<string>();
+    const chars = [...normalizeForDuplicates(text)];
+    for (let i = 0; i <= chars.length - k; i++) {
+      shingles.add(chars.slice(i, i + k).join(""));
+    }
+    return shingles;
+  }
+
+  // Hash function
+  private hash(shingle: string, seed: number): number {
+    const hash = crypto
+      .createHash("md5")
+      .update(shingle + seed.toString())
+      .digest();
+    return hash.readUInt32LE(0);
+  }
+
+  // Update signature with text
+  update(text: string): void {
+    const shingles = this.getShingles(text);
+    for (const shingle of shingles) {
+      for (let i = 0; i < this.numPerm; i++) {
+        const h = this.hash(shingle, i);
+        if (h < this.hashValues[i]) {
+          this.hashValues[i] = h;
+        }
+      }
+    }
+  }
+
+  // Get signature
+  getSignature(): number[] {
+    return [...this.hashValues];
+  }
+
+  // Calculate Jaccard similarity from signatures
+  static similarity(sig1: number[], sig2: number[]): number {
+    if (sig1.length !== sig2.length) return 0;
+    let matches = 0;
+    for (let i = 0; i < sig1.length; i++) {
+      if (sig1[i] === sig2[i]) matches++;
+    }
+    return matches / sig1.length;
+  }
+}
+
+/**
+ * Generate content hash for exact match detection
+ */
+export function generateContentHash(content: string): string {
+  const normalized = normalizeForDuplicates(content);
+  return crypto.createHash("sha256").update(normalized).digest("hex").slice(0, 16);
+}
+
+/**
+ * Generate MinHash signature for similarity detection
+ */
+export function generateMinHashSignature(content: string): number[] {
+  const mh = new MinHash(64);
+  mh.update(content);
+  return mh.getSignature();
+}
@@ -0,0 +1,28 @@
+import { normalizeForDuplicates } from "./text-normalize";
+
+/**
+ * Character n-grams of `text` after duplicate-detection normalization
+ */
+export function getCharNgrams(text: string, n: number = 3): Set<string> {
+  const chars = [...normalizeForDuplicates(text)];
+  const ngrams = new Set<string>();
+  for (let i = 0; i <= chars.length - n; i++) {
+    ngrams.add(chars.slice(i, i + n).join(""));
+  }
+  return ngrams;
+}
+
+/**
+ * Overlap coefficient |A ∩ B| / min(|A|, |B|): 1 when the shorter text is wholly contained
+ * in the longer one, so partial copies score high even when the rest of the text differs
+ */
+export function ngramOverlap(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+
+  const [smaller, larger] = a.size <= b.size ? [a, b] : [b, a];
+  let shared = 0;
+  for (const ngram of smaller) {
+    if (larger.has(ngram)) shared++;
+  }
+  return shared / smaller.size;
+}
@@ -0,0 +1,38 @@
+/**
+ * Source of uniform random numbers in [0, 1). Inject a seeded one for reproducible runs.
+ */
+export type Rng = () => number;
+
+/**
+ * Create a deterministic RNG from a numeric seed (mulberry32)
+ */
+export function createSeededRng(seed: number): Rng {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Box-Muller transform for Gaussian random number
+ */
+export function gaussianRandom(rng: Rng = Math.random): number {
+  const u1 = rng() || Number.MIN_VALUE; // Avoid log(0)
+  const u2 = rng();
+  return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+}
+
+/**
+ * Fisher-Yates shuffle (in place)
+ */
+export function shuffle<T>(items: T[], rng: Rng = Math.random): T[] {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1));
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+  return items;
+}
@@ -0,0 +1,66 @@
+// Range of each length bucket as a share of the platform's character limit
+const LENGTH_BUCKET_RATIOS: Record<string, [number, number]> = {
+  short: [0, 0.35],
+  medium: [0.35, 0.7],
+  long: [0.7, 1],
+};
+
+// Emoji count range of each density bucket (inclusive)
+const EMOJI_DENSITY_COUNTS: Record<string, [number, number]> = {
+  none: [0, 0],
+  low: [1, 2],
+  medium: [3, 5],
+  high: [6, 10],
+};
+
+function getMaxLength(platform: "x" | "threads"): number {
+  return platform === "x" ? 280 : 500;
+}
+
+/**
+ * Classify post length relative to the platform's character limit
+ */
+export function classifyLengthBucket(content: string, platform: "x" | "threads"): string {
+  const ratio = [...content].length / getMaxLength(platform);
+
+  if (ratio < LENGTH_BUCKET_RATIOS.short[1]) return "short";
+  if (ratio < LENGTH_BUCKET_RATIOS.medium[1]) return "medium";
+  return "long";
+}
+
+/**
+ * Classify emoji density by emoji count
+ */
+export function classifyEmojiDensity(content: string): string {
+  // Built via RegExp so the ES2017 target accepts the Unicode property escape
+  const emojiPattern = new RegExp("\\p{Extended_Pictographic}", "gu");
+  const count = content.match(emojiPattern)?.length || 0;
+
+  if (count <= EMOJI_DENSITY_COUNTS.none[1]) return "none";
+  if (count <= EMOJI_DENSITY_COUNTS.low[1]) return "low";
+  if (count <= EMOJI_DENSITY_COUNTS.medium[1]) return "medium";
+  return "high";
+}
+
+/**
+ * Character range a length bucket corresponds to on a platform
+ */
+export function getLengthRange(
+  lengthBucket: string,
+  platform: "x" | "threads"
+): { min: number; max: number } {
+  const [from, to] = LENGTH_BUCKET_RATIOS[lengthBucket] || LENGTH_BUCKET_RATIOS.medium;
+  const maxLength = getMaxLength(platform);
+  return {
+    min: Math.ceil(from * maxLength),
+    max: to >= 1 ? maxLength : Math.ceil(to * maxLength) - 1,
+  };
+}
+
+/**
+ * Emoji count range an emoji density bucket corresponds to
+ */
+export function getEmojiRange(emojiDensity: string): { min: number; max: number } {
+  const [min, max] = EMOJI_DENSITY_COUNTS[emojiDensity] || EMOJI_DENSITY_COUNTS.low;
+  return { min, max };
+}
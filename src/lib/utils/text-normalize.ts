@@ -0,0 +1,48 @@
+import { config } from "@/lib/config";
+
+export interface NormalizeOptions {
+  maskNumbers?: boolean; // replace every run of digits with "#"
+}
+
+// Built via RegExp so the ES2017 target accepts the Unicode property escapes.
+// Emoji plus the joiners, variation selectors, skin tones and keycaps they are built from.
+const EMOJI_PATTERN = new RegExp(
+  "[\\p{Extended_Pictographic}\\p{Regional_Indicator}\\u200d\\ufe0e\\ufe0f\\u20e3\\u{1f3fb}-\\u{1f3ff}]",
+  "gu"
+);
+const PUNCTUATION_PATTERN = new RegExp("[\\p{P}\\p{S}]", "gu");
+const KATAKANA_PATTERN = /[ァ-ヶ]/g;
+const KATAKANA_TO_HIRAGANA = 0x60;
+
+/**
+ * Normalize text for duplicate detection, so variants of the same Japanese post compare equal:
+ *
+ * 1. NFKC: full-width alphanumerics and symbols to half-width, half-width kana to full-width
+ * 2. Lowercase
+ * 3. Kana unification: katakana to hiragana
+ * 4. Emoji, punctuation and symbols removed
+ * 5. Numbers masked (optional)
+ * 6. Whitespace removed
+ */
+export function normalizeText(text: string, options: NormalizeOptions = {}): string {
+  let normalized = text
+    .normalize("NFKC")
+    .toLowerCase()
+    .replace(KATAKANA_PATTERN, (ch) => String.fromCharCode(ch.charCodeAt(0) - KATAKANA_TO_HIRAGANA))
+    .replace(EMOJI_PATTERN, "")
+    .replace(PUNCTUATION_PATTERN, "");
+
+  if (options.maskNumbers) {
+    normalized = normalized.replace(/\d+/g, "#");
+  }
+
+  return normalized.replace(/\s+/g, "");
+}
+
+/**
+ * normalizeText with the duplicate-detection settings (DUPLICATE_MASK_NUMBERS).
+ * Used by content hashes, MinHash signatures and n-gram comparisons alike.
+ */
+export function normalizeForDuplicates(text: string): string {
+  return normalizeText(text, { maskNumbers: config.duplicateMaskNumbers });
+}